@@ -0,0 +1,85 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Crawlers don't run the SPA, so vercel.json routes their /p/:id requests here
+// for a tiny page carrying the Open Graph / Twitter card for the performance.
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  throw new Error('Server configuration error: Supabase environment variables missing');
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const BUCKET = 'rituals';
+const IMAGE_URL_SECONDS = 60 * 60 * 24 * 7; // crawlers cache the card image
+
+const escapeHtml = value =>
+  String(value).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+
+export default async function handler(req, res) {
+  const id = typeof req.query.id === 'string' ? req.query.id : '';
+  const origin = `https://${req.headers['x-forwarded-host'] || req.headers.host}`;
+  const pageUrl = `${origin}/p/${encodeURIComponent(id)}`;
+
+  let title = '4B4KU5 ritual';
+  let description = 'Perform a 36-second sound ritual and keep its Sound Print.';
+  let image = null;
+
+  try {
+    const { data } = await supabase
+      .from('performances')
+      .select('track_name, created_at, is_public, og_image_path, sound_print_path')
+      .eq('id', id)
+      .single();
+
+    // Private performances get the generic card
+    if (data?.is_public) {
+      title = `${data.track_name} · 4B4KU5 ritual`;
+      description = `A ritual performed on ${new Date(data.created_at).toDateString()}.`;
+
+      const imagePath = data.og_image_path || data.sound_print_path;
+      if (imagePath) {
+        const { data: signed } = await supabase.storage.from(BUCKET).createSignedUrl(imagePath, IMAGE_URL_SECONDS);
+        image = signed?.signedUrl ?? null;
+      }
+    }
+  } catch (err) {
+    console.error('OG lookup error:', err);
+  }
+
+  const meta = [
+    ['property', 'og:title', title],
+    ['property', 'og:description', description],
+    ['property', 'og:type', 'video.other'],
+    ['property', 'og:url', pageUrl],
+    ['name', 'twitter:card', image ? 'summary_large_image' : 'summary'],
+    ['name', 'twitter:title', title],
+    ['name', 'twitter:description', description],
+    ...(image
+      ? [
+          ['property', 'og:image', image],
+          ['property', 'og:image:width', '1200'],
+          ['property', 'og:image:height', '630'],
+          ['name', 'twitter:image', image],
+        ]
+      : []),
+  ]
+    .map(([attr, key, content]) => `<meta ${attr}="${key}" content="${escapeHtml(content)}" />`)
+    .join('\n    ');
+
+  res.setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.setHeader('Cache-Control', 'public, max-age=300');
+  return res.status(200).send(`<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>${escapeHtml(title)}</title>
+    ${meta}
+  </head>
+  <body>
+    <a href="${escapeHtml(pageUrl)}">${escapeHtml(title)}</a>
+  </body>
+</html>`);
+}
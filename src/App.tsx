@@ -8,6 +8,10 @@ import { Shell } from './components/layout/Shell';
 import { UploadPage } from './pages/UploadPage';
 import InstrumentPage from './pages/InstrumentPage';
 import ResultPage from './pages/ResultPage';
+import ReplayPage from './pages/ReplayPage';
+import LibraryPage from './pages/LibraryPage';
+import PerformancePage from './pages/PerformancePage';
+import TrackGalleryPage from './pages/TrackGalleryPage';
 import AuthCallbackPage from './pages/AuthCallbackPage';
 
 function GlobalGuards() {
@@ -37,7 +41,12 @@ function App() {
       <Routes>
         <Route path="/" element={<Shell><UploadPage /></Shell>} />
         <Route path="/instrument" element={<Shell><InstrumentPage /></Shell>} />
+        <Route path="/live" element={<Shell><InstrumentPage source="live" /></Shell>} />
         <Route path="/result" element={<ResultPage />} />
+        <Route path="/replay/:performanceId" element={<Shell><ReplayPage /></Shell>} />
+        <Route path="/library" element={<Shell><LibraryPage /></Shell>} />
+        <Route path="/p/:performanceId" element={<Shell><PerformancePage /></Shell>} />
+        <Route path="/track/:trackHash" element={<Shell><TrackGalleryPage /></Shell>} />
         <Route path="/auth/callback" element={<AuthCallbackPage />} />
       </Routes>
     </AppProvider>
@@ -1,4 +1,78 @@
 // src/audio/AudioEngine.ts
+import { encodeWav } from './encoders/wav';
+import { FeatureExtractor } from './features';
+import { sliceAudioBuffer } from './region';
+import type { AudioRegion } from './region';
+import type { AudioFeatures } from './features';
+import { EQ_LAYOUT, bandFrequencies, bandQ, rowToGainDB } from '../config/eqLayout';
+import type { EQLayout } from '../config/eqLayout';
+
+/** One band/row change, timed in seconds from the start of playback. */
+export interface EQAutomationEvent {
+  time: number;
+  band: number;
+  row: number;
+}
+
+const GAIN_TIME_CONSTANT = 0.1;
+
+// Recorder formats in order of preference. MP4/H.264 plays on iOS and uploads to
+// social platforms as-is; WebM is what older Chrome/Firefox can produce.
+const VIDEO_MIME_TYPES = [
+  'video/mp4;codecs=avc1.42E01E,mp4a.40.2',
+  'video/mp4;codecs=avc1,opus',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm',
+];
+const AUDIO_MIME_TYPES = ['audio/mp4;codecs=mp4a.40.2', 'audio/mp4', 'audio/webm;codecs=opus', 'audio/webm'];
+
+export interface LiveInputOptions {
+  /** From enumerateDevices(); the browser default when omitted. */
+  deviceId?: string;
+  /** Play the processed signal out loud. Off by default: open mics into speakers feed back. */
+  monitor?: boolean;
+}
+
+/** Audio inputs the page may use. Labels stay empty until mic permission is granted. */
+export async function listAudioInputs(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput');
+}
+
+/** First candidate this browser's MediaRecorder can write, or '' for its default. */
+function pickRecorderMimeType(candidates: string[]): string {
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+/**
+ * Builds the peaking chain described by `layout` on any context (live or
+ * offline) so both paths shape the sound identically.
+ */
+function buildFilterChain(ctx: BaseAudioContext, layout: EQLayout): BiquadFilterNode[] {
+  const filters: BiquadFilterNode[] = [];
+  const frequencies = bandFrequencies(layout);
+  let previousNode: AudioNode | null = null;
+
+  for (let i = 0; i < layout.bands; i++) {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'peaking';
+    filter.frequency.value = frequencies[i];
+    filter.Q.value = bandQ(layout, i);
+    filter.gain.value = 0;
+
+    if (previousNode) {
+      previousNode.connect(filter);
+    }
+
+    filters.push(filter);
+    previousNode = filter;
+  }
+
+  return filters;
+}
+
 export class AudioEngine {
   private audioCtx: AudioContext | null = null;
   private sourceNode: AudioBufferSourceNode | null = null;
@@ -6,71 +80,177 @@ export class AudioEngine {
   private mediaRecorder: MediaRecorder | null = null;
   private destinationNode: MediaStreamAudioDestinationNode | null = null;
   private recordedChunks: Blob[] = [];
-  
-  private readonly MAX_BANDS = 36;
-  private readonly MAX_ROWS = 36;
+  private automation: EQAutomationEvent[] = [];
+  private playbackStartTime = 0;
+  private analyser: AnalyserNode | null = null;
+  private featureExtractor: FeatureExtractor | null = null;
+  private layout: EQLayout;
+  private currentBuffer: AudioBuffer | null = null;
+  private onSourceEnded: (() => void) | null = null;
+  /** Track position while paused, null while running or stopped. */
+  private pausedAt: number | null = null;
+  // Between the EQ chain and the speakers; muted for live input without monitoring
+  private monitorGain: GainNode | null = null;
+  private liveStream: MediaStream | null = null;
+  private liveSource: MediaStreamAudioSourceNode | null = null;
+  private isLiveTake = false;
+  /** Where the last take stopped, on the playback clock; 0 until one has. */
+  private takeEndedAt = 0;
+
+  constructor(layout: EQLayout = EQ_LAYOUT) {
+    this.layout = layout;
+  }
+
+  getLayout(): EQLayout {
+    return this.layout;
+  }
 
   async init(): Promise<void> {
     if (this.audioCtx && this.audioCtx.state === 'running') return;
     
     const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
     if (!this.audioCtx) {
-        this.audioCtx = new AudioContextClass();
+        // Smallest buffers the device allows; matters most when playing live input
+        this.audioCtx = new AudioContextClass({ latencyHint: 'interactive' });
     }
     
     if (this.audioCtx.state === 'suspended') {
         await this.audioCtx.resume();
     }
 
-    this.eqFilters = [];
-    let previousNode: AudioNode | null = null;
-
-    for (let i = 0; i < this.MAX_BANDS; i++) {
-      const filter = this.audioCtx.createBiquadFilter();
-      filter.type = 'peaking';
-      filter.frequency.value = 20 * Math.pow(2, i / 3);
-      filter.Q.value = 1.4;
-      filter.gain.value = 0;
+    this.eqFilters = buildFilterChain(this.audioCtx, this.layout);
+    this.monitorGain = this.audioCtx.createGain();
+    this.eqFilters[this.eqFilters.length - 1].connect(this.monitorGain);
+    this.monitorGain.connect(this.audioCtx.destination);
 
-      if (previousNode) {
-        previousNode.connect(filter);
-      }
-      
-      this.eqFilters.push(filter);
-      previousNode = filter;
-    }
+    // Tap the post-EQ signal so visuals follow what is actually heard
+    this.analyser = this.audioCtx.createAnalyser();
+    this.analyser.fftSize = 2048;
+    this.analyser.smoothingTimeConstant = 0.6;
+    this.eqFilters[this.eqFilters.length - 1].connect(this.analyser);
+    this.featureExtractor = new FeatureExtractor(this.analyser, bandFrequencies(this.layout));
   }
 
   setBandGain(bandIndex: number, rowIndex: number) {
     if (!this.audioCtx || !this.eqFilters[bandIndex]) return;
     
-    const gainDB = (rowIndex / (this.MAX_ROWS - 1) * 36) - 18;
+    const gainDB = rowToGainDB(this.layout, rowIndex);
     // FIXED: lowercase setTargetAtTime
     this.eqFilters[bandIndex].gain.setTargetAtTime(
       gainDB, 
       this.audioCtx.currentTime, 
-      0.1
+      GAIN_TIME_CONSTANT
     );
+
+    if (this.sourceNode || this.isLiveTake) {
+      this.automation.push({
+        time: this.getPlaybackTime(),
+        band: bandIndex,
+        row: rowIndex,
+      });
+    }
   }
 
-  startPlayback(buffer: AudioBuffer, videoStream: MediaStream | null, onEndedWithBlob: (blob: Blob | null) => void) {
+  /**
+   * Plays `buffer` (or just `region` of it) through the EQ chain and records the
+   * result. Playback time, automation and seek positions are relative to the slice.
+   */
+  startPlayback(
+    buffer: AudioBuffer,
+    videoStream: MediaStream | null,
+    onEndedWithBlob: (blob: Blob | null) => void,
+    region: AudioRegion | null = null
+  ) {
     if (!this.audioCtx || this.eqFilters.length === 0) return;
 
-    this.sourceNode = this.audioCtx.createBufferSource();
-    this.sourceNode.buffer = buffer;
-    this.sourceNode.connect(this.eqFilters[0]);
-    
+    // Every take starts flat, like its gesture log and the offline render
+    this.resetEQ();
+    this.startRecorder(videoStream, onEndedWithBlob);
+    this.automation = [];
+    this.startSource(region ? sliceAudioBuffer(buffer, region) : buffer, 0, () => this.stopRecording());
+  }
+
+  /**
+   * Opens a microphone or line-in and feeds it into the EQ chain. Browser voice
+   * processing is switched off: it adds latency and fights the EQ.
+   */
+  async openLiveInput(options: LiveInputOptions = {}): Promise<void> {
+    await this.init();
+    if (!this.audioCtx || this.eqFilters.length === 0) throw new Error('AudioContext not available');
+    this.closeLiveInput();
+
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: options.deviceId ? { exact: options.deviceId } : undefined,
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+        channelCount: { ideal: 2 },
+      },
+    });
+
+    this.liveStream = stream;
+    this.liveSource = this.audioCtx.createMediaStreamSource(stream);
+    this.liveSource.connect(this.eqFilters[0]);
+    this.setMonitoring(options.monitor ?? false);
+  }
+
+  /** Releases the input device and turns the speakers back on for file playback. */
+  closeLiveInput() {
+    this.liveSource?.disconnect();
+    this.liveStream?.getTracks().forEach(track => track.stop());
+    this.liveSource = null;
+    this.liveStream = null;
+    this.isLiveTake = false;
+    this.setMonitoring(true);
+  }
+
+  setMonitoring(enabled: boolean) {
+    if (!this.audioCtx || !this.monitorGain) return;
+    this.monitorGain.gain.setTargetAtTime(enabled ? 1 : 0, this.audioCtx.currentTime, 0.01);
+  }
+
+  /** Records the open live input like a track take; it runs until stop(). */
+  startLiveTake(videoStream: MediaStream | null, onEndedWithBlob: (blob: Blob | null) => void) {
+    if (!this.audioCtx || !this.liveSource) return;
+
+    this.resetEQ();
+    this.startRecorder(videoStream, onEndedWithBlob);
+    this.automation = [];
+    this.isLiveTake = true;
+    this.playbackStartTime = this.audioCtx.currentTime;
+  }
+
+  isLive(): boolean {
+    return !!this.liveSource;
+  }
+
+  /** Output-side latency of the context in seconds; browsers do not report the input side. */
+  getLatency(): number {
+    if (!this.audioCtx) return 0;
+    return this.audioCtx.baseLatency + (this.audioCtx.outputLatency ?? 0);
+  }
+
+  private startRecorder(videoStream: MediaStream | null, onEndedWithBlob: (blob: Blob | null) => void) {
+    if (!this.audioCtx) return;
+
+    // The last take's tap would otherwise stay on the chain for the rest of the session
+    if (this.destinationNode) {
+      try {
+        this.eqFilters[this.eqFilters.length - 1].disconnect(this.destinationNode);
+      } catch {
+        // Chain was rebuilt since; the old filter no longer feeds it
+      }
+    }
+    this.takeEndedAt = 0;
     this.destinationNode = this.audioCtx.createMediaStreamDestination();
-    const lastFilter = this.eqFilters[this.MAX_BANDS - 1];
-    
-    lastFilter.connect(this.audioCtx.destination);
-    lastFilter.connect(this.destinationNode);
+    this.eqFilters[this.eqFilters.length - 1].connect(this.destinationNode);
 
     this.recordedChunks = [];
     
     try {
         let recordStream = this.destinationNode.stream;
-        let mimeType = 'audio/webm;codecs=opus';
+        let mimeType = pickRecorderMimeType(AUDIO_MIME_TYPES);
 
         if (videoStream) {
           const combinedTracks = [
@@ -78,12 +258,10 @@ export class AudioEngine {
             ...this.destinationNode.stream.getAudioTracks()
           ];
           recordStream = new MediaStream(combinedTracks);
-          mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9,opus') 
-              ? 'video/webm;codecs=vp9,opus' 
-              : 'video/webm';
+          mimeType = pickRecorderMimeType(VIDEO_MIME_TYPES);
         }
             
-        this.mediaRecorder = new MediaRecorder(recordStream, { mimeType });
+        this.mediaRecorder = new MediaRecorder(recordStream, mimeType ? { mimeType } : undefined);
         this.mediaRecorder.ondataavailable = e => {
             if (e.data && e.data.size > 0) {
               this.recordedChunks.push(e.data);
@@ -102,20 +280,113 @@ export class AudioEngine {
       this.mediaRecorder = null;
       onEndedWithBlob(null);
     }
+  }
+
+  /**
+   * Plays through the EQ chain without recording, starting `offset` seconds
+   * into the buffer. Used by replay, where seeking means restarting the source.
+   */
+  startReplay(buffer: AudioBuffer, offset: number, onEnded: () => void) {
+    if (!this.audioCtx || this.eqFilters.length === 0) return;
+    this.startSource(buffer, offset, onEnded);
+  }
+
+  /**
+   * Buffer sources are one-shot, so every (re)start makes a new one. `onEnded`
+   * only fires when the track runs out, not on pause/seek/stop.
+   */
+  private startSource(buffer: AudioBuffer, offset: number, onEnded: () => void) {
+    if (!this.audioCtx) return;
+
+    if (this.sourceNode) {
+      const previous = this.sourceNode;
+      this.sourceNode = null;
+      try { previous.stop(); } catch { /* already stopped */ }
+    }
+
+    const source = this.audioCtx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.eqFilters[0]);
 
-    this.sourceNode.onended = () => {
-      this.stopRecording();
+    source.onended = () => {
+      // Ignore ends caused by a seek, pause or an explicit stop()
+      if (this.sourceNode !== source) return;
+      this.takeEndedAt = this.getPlaybackTime();
+      this.sourceNode = null;
+      onEnded();
     };
 
-    this.sourceNode.start(0);
+    this.currentBuffer = buffer;
+    this.onSourceEnded = onEnded;
+    this.pausedAt = null;
+    this.sourceNode = source;
+    this.playbackStartTime = this.audioCtx.currentTime - offset;
+    source.start(0, offset);
+  }
+
+  /** Holds the current position; the recorder (if any) pauses with the audio. */
+  pause() {
+    if (!this.sourceNode || this.pausedAt !== null) return;
+    const position = this.getPlaybackTime();
+
+    const source = this.sourceNode;
+    this.sourceNode = null;
+    try { source.stop(); } catch { /* already stopped */ }
+    this.pausedAt = position;
+
+    if (this.mediaRecorder?.state === 'recording') this.mediaRecorder.pause();
+  }
+
+  resume() {
+    if (this.pausedAt === null || !this.currentBuffer || !this.onSourceEnded) return;
+    this.startSource(this.currentBuffer, this.pausedAt, this.onSourceEnded);
+
+    if (this.mediaRecorder?.state === 'paused') this.mediaRecorder.resume();
+  }
+
+  /**
+   * Moves the playhead to `time` seconds. Automation recorded after that point
+   * is dropped, so the take stays in time order and a re-performed passage
+   * replaces the old one.
+   */
+  seek(time: number) {
+    if (!this.currentBuffer || !this.onSourceEnded) return;
+    const target = Math.min(Math.max(0, time), this.currentBuffer.duration);
+    this.automation = this.automation.filter(e => e.time <= target);
+
+    if (this.pausedAt !== null) {
+      this.pausedAt = target;
+    } else if (this.sourceNode) {
+      this.startSource(this.currentBuffer, target, this.onSourceEnded);
+    }
+  }
+
+  isPaused(): boolean {
+    return this.pausedAt !== null;
+  }
+
+  /** Snaps every band back to flat, dropping any scheduled ramps. */
+  resetEQ() {
+    if (!this.audioCtx) return;
+    const now = this.audioCtx.currentTime;
+    for (const filter of this.eqFilters) {
+      filter.gain.cancelScheduledValues(now);
+      filter.gain.setValueAtTime(0, now);
+    }
   }
 
   stop() {
+    if (this.isRecording()) this.takeEndedAt = this.getPlaybackTime();
     if (this.sourceNode) {
-      try { this.sourceNode.stop(); } catch(e) {}
+      const source = this.sourceNode;
       this.sourceNode = null;
+      try { source.stop(); } catch { /* already stopped */ }
     }
+    this.pausedAt = null;
+    this.currentBuffer = null;
+    this.onSourceEnded = null;
     this.stopRecording();
+    this.closeLiveInput();
   }
 
   stopRecording() {
@@ -124,6 +395,11 @@ export class AudioEngine {
     }
   }
 
+  /** True while a take is being recorded (including while paused). */
+  isRecording(): boolean {
+    return !!this.mediaRecorder && this.mediaRecorder.state !== 'inactive';
+  }
+
   getRecordingBlob(): Blob | null {
     return this.getRecordingBlobInternal();
   }
@@ -134,6 +410,75 @@ export class AudioEngine {
     return new Blob(this.recordedChunks, { type });
   }
 
+  /** Seconds since the current playback started, on the audio clock. */
+  getPlaybackTime(): number {
+    if (this.pausedAt !== null) return this.pausedAt;
+    if (!this.audioCtx || (!this.sourceNode && !this.isLiveTake)) return 0;
+    return this.audioCtx.currentTime - this.playbackStartTime;
+  }
+
+  /**
+   * How much of the take has actually been played: the running position while
+   * recording, then wherever it stopped (time's up, track end or stop()).
+   */
+  getTakeDuration(): number {
+    return this.isRecording() ? this.getPlaybackTime() : this.takeEndedAt;
+  }
+
+  /** Band/row changes captured during the last playback, for offline re-rendering. */
+  getAutomation(): EQAutomationEvent[] {
+    return [...this.automation];
+  }
+
+  /**
+   * Replays an automation log through a fresh filter chain in an
+   * OfflineAudioContext. Gains are scheduled with the same time constant as
+   * the live path, so the result follows the realtime take without depending
+   * on browser scheduling, and renders as fast as the device allows.
+   */
+  async renderOffline(buffer: AudioBuffer, automation: EQAutomationEvent[]): Promise<AudioBuffer> {
+    const offlineCtx = new OfflineAudioContext(
+      buffer.numberOfChannels,
+      buffer.length,
+      buffer.sampleRate
+    );
+
+    const filters = buildFilterChain(offlineCtx, this.layout);
+    const events = [...automation].sort((a, b) => a.time - b.time);
+
+    for (const event of events) {
+      const filter = filters[event.band];
+      if (!filter) continue;
+      filter.gain.setTargetAtTime(
+        rowToGainDB(this.layout, event.row),
+        Math.max(0, event.time),
+        GAIN_TIME_CONSTANT
+      );
+    }
+
+    const source = offlineCtx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(filters[0]);
+    filters[filters.length - 1].connect(offlineCtx.destination);
+    source.start(0);
+
+    return offlineCtx.startRendering();
+  }
+
+  async renderOfflineWav(buffer: AudioBuffer, automation: EQAutomationEvent[]): Promise<Blob> {
+    const rendered = await this.renderOffline(buffer, automation);
+    return encodeWav(rendered);
+  }
+
+  /**
+   * Current per-band energy, RMS and onset/beat flags. Meant to be polled once
+   * per animation frame; the returned object is reused between calls.
+   */
+  getFeatures(): AudioFeatures | null {
+    if (!this.featureExtractor || (!this.sourceNode && !this.liveSource)) return null;
+    return this.featureExtractor.read();
+  }
+
   getAudioContext(): AudioContext | null {
     return this.audioCtx;
   }
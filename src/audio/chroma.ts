@@ -0,0 +1,104 @@
+// src/audio/chroma.ts
+// Pure analysis for the acoustic fingerprint; runs in the fingerprint worker.
+
+/** Equal slices of the track; each contributes 12 bits (one per pitch class). */
+export const SEGMENTS = 32;
+export const SIGNATURE_BITS = SEGMENTS * 12;
+
+const FFT_SIZE = 4096;
+const MIN_HZ = 55;
+const MAX_HZ = 2000;
+
+/** In-place iterative radix-2 FFT. */
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Chroma energy (12 pitch classes) of each of SEGMENTS equal slices of a mono
+ * signal. Segments are placed by fraction of the duration, so small
+ * leading/trailing padding differences between encodes don't shift them.
+ */
+export function chromaSegments(samples: Float32Array, rate: number): Float64Array[] {
+  const frames = Math.max(1, Math.floor(samples.length / FFT_SIZE));
+
+  // Bin -> pitch class lookup for the analysed range
+  const binPitch = new Int8Array(FFT_SIZE / 2).fill(-1);
+  for (let k = 1; k < FFT_SIZE / 2; k++) {
+    const hz = (k * rate) / FFT_SIZE;
+    if (hz < MIN_HZ || hz > MAX_HZ) continue;
+    binPitch[k] = ((Math.round(12 * Math.log2(hz / 440)) % 12) + 12) % 12;
+  }
+
+  const window = new Float64Array(FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1));
+
+  const chroma = Array.from({ length: SEGMENTS }, () => new Float64Array(12));
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+
+  for (let f = 0; f < frames; f++) {
+    const offset = f * FFT_SIZE;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      re[i] = (samples[offset + i] ?? 0) * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    const segment = Math.min(SEGMENTS - 1, Math.floor((f / frames) * SEGMENTS));
+    for (let k = 1; k < FFT_SIZE / 2; k++) {
+      const pitch = binPitch[k];
+      if (pitch >= 0) chroma[segment][pitch] += Math.hypot(re[k], im[k]);
+    }
+  }
+
+  return chroma;
+}
+
+/**
+ * One bit per segment and pitch class: is that class louder than the
+ * segment's average? Re-encodes flip a few bits rather than changing the
+ * whole value, so signatures are compared by Hamming distance. Hex, three
+ * digits per segment.
+ */
+export function chromaSignature(samples: Float32Array, rate: number): string {
+  return chromaSegments(samples, rate)
+    .map(c => {
+      const mean = c.reduce((sum, v) => sum + v, 0) / 12;
+      let bits = 0;
+      for (let p = 0; p < 12; p++) if (c[p] > mean) bits |= 1 << p;
+      return bits.toString(16).padStart(3, '0');
+    })
+    .join('');
+}
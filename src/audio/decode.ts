@@ -0,0 +1,238 @@
+// src/audio/decode.ts
+import { AudioExtractionError, isVideoFile, openAudioTrack } from './demux';
+import { sliceAudioBuffer } from './region';
+
+export interface DecodeLimits {
+  /** Longest stretch of a track that is kept; anything after it is trimmed. */
+  maxSeconds: number;
+  /** Budget for the decoded PCM (Float32, all channels), in megabytes. */
+  maxMegabytes: number;
+  /** Downsampling stops here; past it the track is folded to mono, then trimmed. */
+  minSampleRate: number;
+}
+
+export const DECODE_LIMITS: DecodeLimits = {
+  maxSeconds: Number(import.meta.env.VITE_MAX_TRACK_SECONDS) || 30 * 60,
+  maxMegabytes: Number(import.meta.env.VITE_MAX_DECODED_MB) || 160,
+  minSampleRate: 22050,
+};
+
+export interface DecodedTrack {
+  buffer: AudioBuffer;
+  /** Length of the source before any trimming, in seconds. */
+  sourceDuration: number;
+  trimmed: boolean;
+  downsampled: boolean;
+}
+
+interface DecodePlan {
+  /** Integer decimation factor from the source rate. */
+  factor: number;
+  channels: number;
+  seconds: number;
+}
+
+/** Fits `duration` seconds of source audio into the limits: lower rate first, then mono, then trim. */
+export function planDecode(duration: number, sampleRate: number, channels: number, limits: DecodeLimits): DecodePlan {
+  const budget = (limits.maxMegabytes * 1024 * 1024) / Float32Array.BYTES_PER_ELEMENT;
+  const seconds = Math.min(duration, limits.maxSeconds);
+  const samplesAt = (factor: number, ch: number) => (seconds * sampleRate * ch) / factor;
+
+  let factor = 1;
+  while (samplesAt(factor, channels) > budget && sampleRate / (factor + 1) >= limits.minSampleRate) factor++;
+  const outChannels = samplesAt(factor, channels) > budget ? 1 : channels;
+
+  return {
+    factor,
+    channels: outChannels,
+    seconds: Math.min(seconds, (budget * factor) / (sampleRate * outChannels)),
+  };
+}
+
+/**
+ * Writes source chunks straight into the output AudioBuffer, averaging every
+ * `factor` frames (and all channels when folding to mono). Stops once full.
+ */
+function createPcmWriter(plan: DecodePlan, sampleRate: number) {
+  const { factor, channels } = plan;
+  const rate = sampleRate / factor;
+  const output = new AudioBuffer({
+    numberOfChannels: channels,
+    length: Math.max(1, Math.floor(plan.seconds * rate)),
+    sampleRate: rate,
+  });
+  const targets = Array.from({ length: channels }, (_, c) => output.getChannelData(c));
+  const sums = new Float64Array(channels);
+  let pending = 0;
+  let written = 0;
+
+  return {
+    /** Returns false once the output is full. */
+    push(chunk: AudioBuffer): boolean {
+      const sources = Array.from({ length: chunk.numberOfChannels }, (_, c) => chunk.getChannelData(c));
+      const fold = channels === 1 && sources.length > 1;
+
+      for (let i = 0; i < chunk.length; i++) {
+        for (let c = 0; c < channels; c++) {
+          if (fold) {
+            let mix = 0;
+            for (const source of sources) mix += source[i];
+            sums[c] += mix / sources.length;
+          } else {
+            sums[c] += sources[Math.min(c, sources.length - 1)][i];
+          }
+        }
+        if (++pending < factor) continue;
+
+        for (let c = 0; c < channels; c++) {
+          targets[c][written] = sums[c] / factor;
+          sums[c] = 0;
+        }
+        pending = 0;
+        if (++written >= output.length) return false;
+      }
+      return true;
+    },
+    finish(): AudioBuffer {
+      if (written === 0) throw new Error('No audio was decoded');
+      // Duration estimates can run long by a frame or two
+      return written < output.length
+        ? sliceAudioBuffer(output, { start: 0, end: written / rate })
+        : output;
+    },
+  };
+}
+
+function decodedTrack(buffer: AudioBuffer, source: { duration: number; channels: number }, plan: DecodePlan): DecodedTrack {
+  return {
+    buffer,
+    sourceDuration: source.duration,
+    trimmed: plan.seconds < source.duration - 0.01,
+    downsampled: plan.factor > 1 || plan.channels < source.channels,
+  };
+}
+
+// decodeAudioData's output rate here, and the channel count to assume until it returns
+const WEB_AUDIO_RATE = 44100;
+const ASSUMED_CHANNELS = 2;
+// The fallback holds the file bytes and the full-rate PCM at once before capping;
+// that peak may run to this multiple of the PCM budget
+const WEB_AUDIO_PEAK_FACTOR = 2;
+// For files the media element can't size up: a low bitrate, so the estimate errs long
+const ASSUMED_BITRATE = 128_000;
+
+/** Duration from the file's metadata via a media element, without decoding; null if unknown. */
+function probeDuration(file: File): Promise<number | null> {
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(file);
+    const media = document.createElement('audio');
+    const done = (seconds: number | null) => {
+      URL.revokeObjectURL(url);
+      media.removeAttribute('src');
+      resolve(seconds);
+    };
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => done(Number.isFinite(media.duration) ? media.duration : null);
+    media.onerror = () => done(null);
+    media.src = url;
+  });
+}
+
+/**
+ * decodeAudioData can't stop part way, so the whole file is decoded before
+ * `limits` apply. Refuses up front when that would blow well past them.
+ */
+async function checkWebAudioBudget(file: File, limits: DecodeLimits) {
+  const seconds = (await probeDuration(file)) ?? (file.size * 8) / ASSUMED_BITRATE;
+  const peakBytes = file.size + seconds * WEB_AUDIO_RATE * ASSUMED_CHANNELS * Float32Array.BYTES_PER_ELEMENT;
+  if (peakBytes <= limits.maxMegabytes * 1024 * 1024 * WEB_AUDIO_PEAK_FACTOR) return;
+
+  const maxMinutes = Math.floor(
+    (limits.maxMegabytes * 1024 * 1024 * WEB_AUDIO_PEAK_FACTOR) /
+      (WEB_AUDIO_RATE * ASSUMED_CHANNELS * Float32Array.BYTES_PER_ELEMENT * 60)
+  );
+  throw new AudioExtractionError(
+    'too-large',
+    `This track is too long to open in this browser (about ${Math.round(seconds / 60)} min; up to ${maxMinutes} min works here). ` +
+      'Trim it or export a shorter section first, or try Chrome or Edge, which can read long files.'
+  );
+}
+
+/** Whole-file decodeAudioData, capped afterwards. Used where WebCodecs can't read the file. */
+async function decodeWithWebAudio(file: File, limits: DecodeLimits): Promise<DecodedTrack> {
+  await checkWebAudioBudget(file, limits);
+  const ctx = new OfflineAudioContext(1, 1, WEB_AUDIO_RATE);
+  const decoded = await ctx.decodeAudioData(await file.arrayBuffer());
+  const source = { duration: decoded.duration, channels: decoded.numberOfChannels };
+  const plan = planDecode(source.duration, decoded.sampleRate, source.channels, limits);
+
+  if (plan.factor === 1 && plan.channels === source.channels && plan.seconds >= source.duration) {
+    return decodedTrack(decoded, source, plan);
+  }
+  const writer = createPcmWriter(plan, decoded.sampleRate);
+  writer.push(decoded);
+  return decodedTrack(writer.finish(), source, plan);
+}
+
+/**
+ * Decodes an upload chunk by chunk through WebCodecs, reporting progress and
+ * downsampling/trimming to `limits` as it goes, so even hour-long mixes never
+ * exist in memory at full rate. Falls back to decodeAudioData for audio
+ * formats WebCodecs can't read. Throws AudioExtractionError with a
+ * per-format reason when nothing can decode the file.
+ */
+export async function decodeTrack(
+  file: File,
+  options: { limits?: DecodeLimits; onProgress?: (progress01: number) => void } = {}
+): Promise<DecodedTrack> {
+  const limits = options.limits ?? DECODE_LIMITS;
+  const isVideo = isVideoFile(file);
+
+  if (typeof AudioDecoder === 'undefined') {
+    try {
+      return await decodeWithWebAudio(file, limits);
+    } catch (e) {
+      if (!isVideo || (e instanceof AudioExtractionError && e.code === 'too-large')) throw e;
+      throw new AudioExtractionError(
+        'no-webcodecs',
+        "This browser can't read audio from video files. Try Chrome, Edge or a recent Safari, or export the audio as MP3 first."
+      );
+    }
+  }
+
+  let opened;
+  try {
+    opened = await openAudioTrack(file);
+  } catch (e) {
+    const unreadable = e instanceof AudioExtractionError && (e.code === 'unsupported-container' || e.code === 'unsupported-codec');
+    if (isVideo || !unreadable) throw e;
+    return decodeWithWebAudio(file, limits).catch(fallbackError => {
+      const tooLarge = fallbackError instanceof AudioExtractionError && fallbackError.code === 'too-large';
+      throw tooLarge ? fallbackError : e;
+    });
+  }
+
+  const { input, track, container } = opened;
+  try {
+    const { AudioBufferSink } = await import('mediabunny');
+    const source = { duration: await input.computeDuration(), channels: track.numberOfChannels };
+    const plan = planDecode(source.duration, track.sampleRate, source.channels, limits);
+    const writer = createPcmWriter(plan, track.sampleRate);
+
+    for await (const { buffer, timestamp, duration } of new AudioBufferSink(track).buffers()) {
+      options.onProgress?.(Math.min(1, (timestamp + duration) / plan.seconds));
+      if (!writer.push(buffer)) break;
+    }
+    options.onProgress?.(1);
+    return decodedTrack(writer.finish(), source, plan);
+  } catch (e) {
+    console.error('Streaming decode failed:', e);
+    throw new AudioExtractionError(
+      'decode-failed',
+      `The audio in this ${container} ${isVideo ? 'video' : 'file'} is damaged or incomplete and couldn't be decoded.`,
+      { container, codec: track.codec }
+    );
+  } finally {
+    input.dispose();
+  }
+}
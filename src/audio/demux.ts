@@ -0,0 +1,99 @@
+// src/audio/demux.ts
+import type { Input, InputAudioTrack } from 'mediabunny';
+
+const VIDEO_EXTENSIONS = ['mp4', 'm4v', 'mov', 'webm', 'mkv', '3gp'];
+
+export type AudioExtractionErrorCode =
+  | 'unsupported-container'
+  | 'no-audio-track'
+  | 'unsupported-codec'
+  | 'no-webcodecs'
+  | 'decode-failed'
+  | 'too-large';
+
+/**
+ * Why audio couldn't be pulled out of an upload. `message` is written for the
+ * person uploading; `container`/`codec` are kept for analytics.
+ */
+export class AudioExtractionError extends Error {
+  readonly code: AudioExtractionErrorCode;
+  readonly container: string | null;
+  readonly codec: string | null;
+
+  constructor(
+    code: AudioExtractionErrorCode,
+    message: string,
+    details: { container?: string | null; codec?: string | null } = {}
+  ) {
+    super(message);
+    this.name = 'AudioExtractionError';
+    this.code = code;
+    this.container = details.container ?? null;
+    this.codec = details.codec ?? null;
+  }
+}
+
+export function extensionOf(file: File) {
+  const dot = file.name.lastIndexOf('.');
+  return dot >= 0 ? file.name.slice(dot + 1).toLowerCase() : '';
+}
+
+/** Video containers can only be read through the demuxer; audio files can fall back to decodeAudioData. */
+export function isVideoFile(file: File): boolean {
+  return file.type.startsWith('video/') || VIDEO_EXTENSIONS.includes(extensionOf(file));
+}
+
+export interface OpenedAudioTrack {
+  input: Input;
+  track: InputAudioTrack;
+  container: string;
+}
+
+/**
+ * Opens the primary audio track of any container mediabunny understands
+ * (MP4/MOV, WebM/MKV, MP3, WAV, Ogg, FLAC, ADTS). Throws AudioExtractionError
+ * with a per-format reason; the caller must dispose `input` on success.
+ */
+export async function openAudioTrack(file: File): Promise<OpenedAudioTrack> {
+  // Loaded on demand; keeps the demuxer out of the main bundle
+  const { ALL_FORMATS, BlobSource, Input, UnsupportedInputFormatError } = await import('mediabunny');
+  const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS });
+  const kind = isVideoFile(file) ? 'video' : 'file';
+
+  try {
+    let container: string;
+    try {
+      container = (await input.getFormat()).name;
+    } catch (e) {
+      if (!(e instanceof UnsupportedInputFormatError)) throw e;
+      const ext = extensionOf(file);
+      throw new AudioExtractionError(
+        'unsupported-container',
+        `${ext ? `.${ext.toUpperCase()}` : 'This'} ${kind}s aren't supported. Use MP4, MOV, WebM or MKV video, or MP3, WAV or M4A audio.`
+      );
+    }
+
+    const track = await input.getPrimaryAudioTrack();
+    if (!track) {
+      throw new AudioExtractionError(
+        'no-audio-track',
+        `This ${container} ${kind} has no audio track. Screen recordings often leave sound off — record again with audio enabled.`,
+        { container }
+      );
+    }
+
+    const codec = track.codec;
+    if (!(await track.canDecode())) {
+      throw new AudioExtractionError(
+        'unsupported-codec',
+        `This ${container} ${kind} stores its audio as ${codec ? codec.toUpperCase() : 'an unknown codec'}, which this browser can't decode. Try converting it to MP3 or AAC.`,
+        { container, codec }
+      );
+    }
+
+    return { input, track, container };
+  } catch (e) {
+    input.dispose();
+    throw e;
+  }
+}
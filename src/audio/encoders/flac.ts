@@ -0,0 +1,248 @@
+// src/audio/encoders/flac.ts
+import { channelsOf, quantize } from './pcm';
+import type { BitDepth } from './pcm';
+
+// Minimal FLAC encoder: fixed block size, independent channels, FIXED
+// predictors (order 0-4) with a single Rice/Rice2 partition per subframe.
+// No MD5 in STREAMINFO (all zeros is "unknown", which decoders accept).
+
+const BLOCK_SIZE = 4096;
+
+// Frame-header sample rate codes; anything else falls back to STREAMINFO (0b0000)
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001,
+  176400: 0b0010,
+  192000: 0b0011,
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+  96000: 0b1011,
+};
+// 4-bit Rice params top out at 14 (15 is the escape code); loud 24-bit
+// material needs RICE2's 5-bit params, which go up to 30.
+const MAX_RICE_PARAM = 14;
+const MAX_RICE2_PARAM = 30;
+
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private pos = 0; // bytes
+  private acc = 0; // pending bits, MSB first
+  private accBits = 0;
+
+  private ensure(extra: number) {
+    if (this.pos + extra <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.pos + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.bytes.subarray(0, this.pos));
+    this.bytes = next;
+  }
+
+  /** Writes the low `count` bits of a non-negative `value` (count <= 32). */
+  write(value: number, count: number) {
+    if (count > 16) {
+      this.write(Math.floor(value / 0x10000), count - 16);
+      this.write(value & 0xffff, 16);
+      return;
+    }
+
+    this.ensure(4);
+    this.acc = this.acc * (1 << count) + (value & ((1 << count) - 1));
+    this.accBits += count;
+    while (this.accBits >= 8) {
+      this.accBits -= 8;
+      this.bytes[this.pos++] = (this.acc >>> this.accBits) & 0xff;
+      this.acc &= (1 << this.accBits) - 1;
+    }
+  }
+
+  writeUnary(zeros: number) {
+    let left = zeros;
+    while (left >= 16) {
+      this.write(0, 16);
+      left -= 16;
+    }
+    this.write(1, left + 1);
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.write(0, 8 - this.accBits);
+  }
+
+  get byteLength() {
+    return this.pos;
+  }
+
+  slice(from: number, to = this.pos) {
+    return this.bytes.slice(from, to);
+  }
+}
+
+function crc8(data: Uint8Array) {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+}
+
+function crc16(data: Uint8Array) {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+}
+
+/** FLAC's UTF-8-style variable-length integer (frame numbers). */
+function writeUtf8Number(w: BitWriter, n: number) {
+  if (n < 0x80) {
+    w.write(n, 8);
+    return;
+  }
+  // `extra` continuation bytes carry 6 bits each; the lead byte carries 6 - extra
+  let extra = 1;
+  while (n >= Math.pow(2, 5 * extra + 6)) extra++;
+  const lead = (0xff << (7 - extra)) & 0xff;
+  w.write(lead | Math.floor(n / Math.pow(2, 6 * extra)), 8);
+  for (let i = extra - 1; i >= 0; i--) {
+    w.write(0x80 | (Math.floor(n / Math.pow(2, 6 * i)) & 0x3f), 8);
+  }
+}
+
+function fixedResiduals(samples: Int32Array, order: number): Int32Array {
+  const n = samples.length;
+  const res = new Int32Array(Math.max(0, n - order));
+  for (let i = order; i < n; i++) {
+    const s = samples;
+    let r: number;
+    switch (order) {
+      case 0: r = s[i]; break;
+      case 1: r = s[i] - s[i - 1]; break;
+      case 2: r = s[i] - 2 * s[i - 1] + s[i - 2]; break;
+      case 3: r = s[i] - 3 * s[i - 1] + 3 * s[i - 2] - s[i - 3]; break;
+      default: r = s[i] - 4 * s[i - 1] + 6 * s[i - 2] - 4 * s[i - 3] + s[i - 4]; break;
+    }
+    res[i - order] = r;
+  }
+  return res;
+}
+
+const zigzag = (r: number) => (r >= 0 ? 2 * r : -2 * r - 1);
+
+function sumAbs(residuals: Int32Array) {
+  let sum = 0;
+  for (let i = 0; i < residuals.length; i++) sum += Math.abs(residuals[i]);
+  return sum;
+}
+
+/** Rice parameter close to optimal for a geometric-ish residual distribution. */
+function riceParamFor(residuals: Int32Array) {
+  if (!residuals.length) return 0;
+  const mean = (2 * sumAbs(residuals)) / residuals.length;
+  const k = mean >= 1 ? Math.floor(Math.log2(mean)) : 0;
+  return Math.min(MAX_RICE2_PARAM, Math.max(0, k));
+}
+
+function writeSubframe(w: BitWriter, samples: Int32Array, bitDepth: number) {
+  // Pick the FIXED order whose residual is smallest
+  const maxOrder = Math.min(4, samples.length - 1);
+  let order = 0;
+  let residuals = fixedResiduals(samples, 0);
+  let cost = sumAbs(residuals);
+  for (let o = 1; o <= maxOrder; o++) {
+    const r = fixedResiduals(samples, o);
+    const c = sumAbs(r);
+    if (c < cost) {
+      order = o;
+      residuals = r;
+      cost = c;
+    }
+  }
+  const param = riceParamFor(residuals);
+
+  w.write(0, 1); // zero pad
+  w.write(0b001000 | order, 6); // SUBFRAME_FIXED
+  w.write(0, 1); // no wasted bits
+
+  for (let i = 0; i < order; i++) {
+    const v = samples[i];
+    w.write(v < 0 ? v + Math.pow(2, bitDepth) : v, bitDepth);
+  }
+
+  const rice2 = param > MAX_RICE_PARAM;
+  w.write(rice2 ? 1 : 0, 2); // PARTITIONED_RICE / PARTITIONED_RICE2
+  w.write(0, 4); // partition order 0
+  w.write(param, rice2 ? 5 : 4);
+
+  const div = Math.pow(2, param);
+  for (let i = 0; i < residuals.length; i++) {
+    const u = zigzag(residuals[i]);
+    w.writeUnary(Math.floor(u / div));
+    if (param > 0) w.write(u % div, param);
+  }
+}
+
+/**
+ * Encodes an AudioBuffer as a FLAC file at 16 or 24 bits per sample.
+ */
+export function encodeFlac(buffer: AudioBuffer, bitDepth: BitDepth = 16): Blob {
+  const numChannels = buffer.numberOfChannels;
+  if (numChannels > 8) throw new Error('FLAC supports at most 8 channels');
+
+  const channels = channelsOf(buffer);
+  const w = new BitWriter();
+
+  // "fLaC" + STREAMINFO (last metadata block)
+  w.write(0x664c6143, 32);
+  w.write(1, 1);
+  w.write(0, 7);
+  w.write(34, 24);
+  w.write(BLOCK_SIZE, 16); // min block size
+  w.write(BLOCK_SIZE, 16); // max block size
+  w.write(0, 24); // min frame size (unknown)
+  w.write(0, 24); // max frame size (unknown)
+  w.write(buffer.sampleRate, 20);
+  w.write(numChannels - 1, 3);
+  w.write(bitDepth - 1, 5);
+  w.write(Math.floor(buffer.length / Math.pow(2, 32)), 4);
+  w.write(buffer.length >>> 0, 32);
+  for (let i = 0; i < 4; i++) w.write(0, 32); // MD5 unknown
+
+  const samples = new Int32Array(BLOCK_SIZE);
+  let frameNumber = 0;
+
+  for (let start = 0; start < buffer.length; start += BLOCK_SIZE, frameNumber++) {
+    const blockSize = Math.min(BLOCK_SIZE, buffer.length - start);
+    const frameStart = w.byteLength;
+
+    w.write(0b11111111111110, 14); // sync
+    w.write(0, 1); // reserved
+    w.write(0, 1); // fixed block size stream
+    w.write(0b0111, 4); // block size: 16-bit (n-1) at end of header
+    w.write(SAMPLE_RATE_CODES[buffer.sampleRate] ?? 0b0000, 4);
+    w.write(numChannels - 1, 4); // independent channels
+    w.write(bitDepth === 16 ? 0b100 : 0b110, 3);
+    w.write(0, 1); // reserved
+    writeUtf8Number(w, frameNumber);
+    w.write(blockSize - 1, 16);
+    w.write(crc8(w.slice(frameStart)), 8);
+
+    for (let c = 0; c < numChannels; c++) {
+      const block = samples.subarray(0, blockSize);
+      for (let i = 0; i < blockSize; i++) block[i] = quantize(channels[c][start + i], bitDepth);
+      writeSubframe(w, block, bitDepth);
+    }
+
+    w.alignToByte();
+    w.write(crc16(w.slice(frameStart)), 16);
+  }
+
+  return new Blob([w.slice(0)], { type: 'audio/flac' });
+}
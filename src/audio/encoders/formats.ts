@@ -0,0 +1,18 @@
+// src/audio/encoders/formats.ts
+import { encodeWav } from './wav';
+import { encodeFlac } from './flac';
+
+export type AudioExportFormat = 'wav-16' | 'wav-24' | 'flac-16' | 'flac-24';
+
+export interface AudioExportOption {
+  label: string;
+  extension: string;
+  encode: (buffer: AudioBuffer) => Blob;
+}
+
+export const AUDIO_EXPORT_FORMATS: Record<AudioExportFormat, AudioExportOption> = {
+  'wav-16': { label: 'WAV 16', extension: 'wav', encode: b => encodeWav(b, 16) },
+  'wav-24': { label: 'WAV 24', extension: 'wav', encode: b => encodeWav(b, 24) },
+  'flac-16': { label: 'FLAC 16', extension: 'flac', encode: b => encodeFlac(b, 16) },
+  'flac-24': { label: 'FLAC 24', extension: 'flac', encode: b => encodeFlac(b, 24) },
+};
@@ -0,0 +1,16 @@
+// src/audio/encoders/pcm.ts
+
+export type BitDepth = 16 | 24;
+
+/** Float [-1, 1] -> signed integer PCM at the given depth. */
+export function quantize(sample: number, bitDepth: BitDepth): number {
+  const s = Math.max(-1, Math.min(1, sample));
+  const max = bitDepth === 16 ? 0x7fff : 0x7fffff;
+  return s < 0 ? Math.round(s * (max + 1)) : Math.round(s * max);
+}
+
+export function channelsOf(buffer: AudioBuffer): Float32Array[] {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c));
+  return channels;
+}
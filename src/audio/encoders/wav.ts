@@ -0,0 +1,55 @@
+// src/audio/encoders/wav.ts
+import { channelsOf, quantize } from './pcm';
+import type { BitDepth } from './pcm';
+
+function writeString(view: DataView, offset: number, str: string) {
+  for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+}
+
+/**
+ * Encodes an AudioBuffer as an interleaved 16- or 24-bit PCM WAV file.
+ */
+export function encodeWav(buffer: AudioBuffer, bitDepth: BitDepth = 16): Blob {
+  const numChannels = buffer.numberOfChannels;
+  const sampleRate = buffer.sampleRate;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = buffer.length * blockAlign;
+
+  const out = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(out);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channels = channelsOf(buffer);
+
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const v = quantize(channels[c][i], bitDepth);
+      if (bitDepth === 16) {
+        view.setInt16(offset, v, true);
+      } else {
+        // 24-bit little-endian, two's complement
+        view.setUint8(offset, v & 0xff);
+        view.setUint8(offset + 1, (v >> 8) & 0xff);
+        view.setUint8(offset + 2, (v >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([out], { type: 'audio/wav' });
+}
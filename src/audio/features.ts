@@ -0,0 +1,115 @@
+// src/audio/features.ts
+
+export interface AudioFeatures {
+  /** Energy per EQ band, 0..1, aligned with the layout's band centers. */
+  bands: Float32Array;
+  /** Time-domain RMS of the post-EQ signal, 0..1. */
+  rms: number;
+  /** True on the frame a spectral-flux onset is detected. */
+  onset: boolean;
+  /** True on the frame a low-end beat is detected. */
+  beat: boolean;
+}
+
+const FLUX_HISTORY = 43; // ~0.7 s of frames at 60 fps
+const ONSET_SENSITIVITY = 1.5;
+const BEAT_SENSITIVITY = 1.35;
+const BEAT_MAX_HZ = 150;
+const BEAT_REFRACTORY_MS = 250;
+
+/**
+ * Pulls frequency/time data from an AnalyserNode and reduces it to per-band
+ * energy, RMS and onset/beat flags. Call `read()` once per animation frame.
+ */
+export class FeatureExtractor {
+  private analyser: AnalyserNode;
+  private freqData: Uint8Array<ArrayBuffer>;
+  private prevFreqData: Uint8Array<ArrayBuffer>;
+  private timeData: Float32Array<ArrayBuffer>;
+  private binRanges: [number, number][];
+  private beatBands: number[];
+  private fluxHistory: number[] = [];
+  private lowHistory: number[] = [];
+  private lastBeatAt = 0;
+  private features: AudioFeatures;
+
+  constructor(analyser: AnalyserNode, bandFrequencies: number[]) {
+    this.analyser = analyser;
+    this.freqData = new Uint8Array(analyser.frequencyBinCount);
+    this.prevFreqData = new Uint8Array(analyser.frequencyBinCount);
+    this.timeData = new Float32Array(analyser.fftSize);
+    this.features = { bands: new Float32Array(bandFrequencies.length), rms: 0, onset: false, beat: false };
+
+    // Each band owns the bins between the geometric midpoints to its neighbours
+    const binHz = analyser.context.sampleRate / analyser.fftSize;
+    const maxBin = analyser.frequencyBinCount - 1;
+    this.binRanges = bandFrequencies.map((f, i) => {
+      const lo = i > 0 ? Math.sqrt(bandFrequencies[i - 1] * f) : f / 1.26;
+      const hi = i < bandFrequencies.length - 1 ? Math.sqrt(f * bandFrequencies[i + 1]) : f * 1.26;
+      const from = Math.min(maxBin, Math.max(0, Math.floor(lo / binHz)));
+      const to = Math.min(maxBin, Math.max(from, Math.ceil(hi / binHz)));
+      return [from, to];
+    });
+
+    this.beatBands = bandFrequencies.flatMap((f, i) => (f <= BEAT_MAX_HZ ? [i] : []));
+    if (this.beatBands.length === 0) this.beatBands = [0];
+  }
+
+  read(): AudioFeatures {
+    const { analyser, freqData, prevFreqData, timeData, features } = this;
+
+    prevFreqData.set(freqData);
+    analyser.getByteFrequencyData(freqData);
+    analyser.getFloatTimeDomainData(timeData);
+
+    // Per-band energy
+    this.binRanges.forEach(([from, to], i) => {
+      let sum = 0;
+      for (let b = from; b <= to; b++) sum += freqData[b];
+      features.bands[i] = sum / ((to - from + 1) * 255);
+    });
+
+    // RMS
+    let sq = 0;
+    for (let i = 0; i < timeData.length; i++) sq += timeData[i] * timeData[i];
+    features.rms = Math.min(1, Math.sqrt(sq / timeData.length));
+
+    // Onset: positive spectral flux above a running average
+    let flux = 0;
+    for (let b = 0; b < freqData.length; b++) {
+      const d = freqData[b] - prevFreqData[b];
+      if (d > 0) flux += d;
+    }
+    const fluxAvg = average(this.fluxHistory);
+    features.onset = this.fluxHistory.length >= FLUX_HISTORY && flux > fluxAvg * ONSET_SENSITIVITY && flux > 0;
+    pushBounded(this.fluxHistory, flux);
+
+    // Beat: low-band energy spike, with a refractory window so one kick = one beat
+    let low = 0;
+    for (const i of this.beatBands) low += features.bands[i];
+    low /= this.beatBands.length;
+    const lowAvg = average(this.lowHistory);
+    const now = performance.now();
+    features.beat =
+      this.lowHistory.length >= FLUX_HISTORY &&
+      low > lowAvg * BEAT_SENSITIVITY &&
+      low > 0.2 &&
+      now - this.lastBeatAt > BEAT_REFRACTORY_MS;
+    if (features.beat) this.lastBeatAt = now;
+    pushBounded(this.lowHistory, low);
+
+    return features;
+  }
+}
+
+function average(values: number[]) {
+  if (!values.length) return 0;
+  let sum = 0;
+  for (const v of values) sum += v;
+  return sum / values.length;
+}
+
+function pushBounded(values: number[], v: number) {
+  values.push(v);
+  if (values.length > FLUX_HISTORY) values.shift();
+}
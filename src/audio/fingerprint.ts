@@ -0,0 +1,127 @@
+// src/audio/fingerprint.ts
+import { SEGMENTS, SIGNATURE_BITS, chromaSignature } from './chroma';
+import type { FingerprintJob } from './fingerprint.worker';
+
+/**
+ * What we know about a track's identity. `acoustic` is derived from the
+ * decoded audio, so a re-encoded copy of the same song lands close to it
+ * (see `isSameTrack`); `fileSha256` only matches byte-identical uploads.
+ */
+export interface TrackFingerprint {
+  acoustic: string;
+  fileSha256: string | null;
+}
+
+// Bump when the analysis changes; fingerprints from different versions never match.
+const FINGERPRINT_VERSION = 2;
+const PREFIX = `fp${FINGERPRINT_VERSION}:`;
+
+const TARGET_RATE = 11025;
+// Encoders pad/trim a few ms, and some drop or add a frame of silence at the ends
+const DURATION_TOLERANCE_SECONDS = 2;
+// Share of signature bits allowed to differ; re-encodes land well under, other songs near 0.5
+const MATCH_DISTANCE = 0.2;
+// Lookup keys: one per run of KEY_SEGMENTS segments. A re-encode that flips a
+// few bits still leaves most runs intact, so the copies share a key or more.
+const KEY_SEGMENTS = 2;
+// Hashing needs the whole file in memory; long mixes only get the acoustic fingerprint
+const MAX_HASHED_FILE_BYTES = 64 * 1024 * 1024;
+
+async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Mono mix, box-filtered down to roughly TARGET_RATE. */
+function monoDownsampled(buffer: AudioBuffer): FingerprintJob {
+  const factor = Math.max(1, Math.round(buffer.sampleRate / TARGET_RATE));
+  const out = new Float32Array(Math.floor(buffer.length / factor));
+  const scale = 1 / (factor * buffer.numberOfChannels);
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < out.length; i++) {
+      let sum = 0;
+      for (let j = i * factor, end = j + factor; j < end; j++) sum += data[j];
+      out[i] += sum * scale;
+    }
+  }
+  return { samples: out, rate: buffer.sampleRate / factor };
+}
+
+/** Chroma signature of `job`, computed in a worker where there is one. */
+function signatureOffThread(job: FingerprintJob): Promise<string> {
+  if (typeof Worker === 'undefined') return Promise.resolve(chromaSignature(job.samples, job.rate));
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./fingerprint.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<string>) => {
+      worker.terminate();
+      resolve(e.data);
+    };
+    worker.onerror = e => {
+      worker.terminate();
+      reject(new Error(e.message || 'Fingerprint worker failed'));
+    };
+    worker.postMessage(job, [job.samples.buffer]);
+  });
+}
+
+/** `fp2:<seconds>:<signature hex>`; compare with `isSameTrack`, not equality. */
+export async function acousticFingerprint(buffer: AudioBuffer): Promise<string> {
+  const signature = await signatureOffThread(monoDownsampled(buffer));
+  return `${PREFIX}${Math.round(buffer.duration)}:${signature}`;
+}
+
+function parseAcoustic(acoustic: string): { seconds: number; signature: string } | null {
+  if (!acoustic.startsWith(PREFIX)) return null;
+  const [seconds, signature] = acoustic.slice(PREFIX.length).split(':');
+  if (!signature || signature.length !== SIGNATURE_BITS / 4 || !/^[0-9a-f]+$/.test(signature)) return null;
+  return { seconds: Number(seconds), signature };
+}
+
+/**
+ * Share (0-1) of signature bits that differ between two acoustic
+ * fingerprints; 1 when they can't be the same track (durations too far
+ * apart, other versions or malformed).
+ */
+export function fingerprintDistance(a: string, b: string): number {
+  const pa = parseAcoustic(a);
+  const pb = parseAcoustic(b);
+  if (!pa || !pb) return a === b ? 0 : 1;
+  if (Math.abs(pa.seconds - pb.seconds) > DURATION_TOLERANCE_SECONDS) return 1;
+
+  let differing = 0;
+  for (let i = 0; i < pa.signature.length; i++) {
+    let x = parseInt(pa.signature[i], 16) ^ parseInt(pb.signature[i], 16);
+    for (; x; x &= x - 1) differing++;
+  }
+  return differing / SIGNATURE_BITS;
+}
+
+export function isSameTrack(a: string, b: string): boolean {
+  return fingerprintDistance(a, b) <= MATCH_DISTANCE;
+}
+
+/**
+ * Coarse keys for finding candidates in the database (any shared key); the
+ * candidates are then checked with `isSameTrack`. Empty for fingerprints
+ * from older versions, which only ever match exactly.
+ */
+export function fingerprintKeys(acoustic: string): string[] {
+  const parsed = parseAcoustic(acoustic);
+  if (!parsed) return [];
+  const digits = KEY_SEGMENTS * 3;
+  return Array.from(
+    { length: SEGMENTS / KEY_SEGMENTS },
+    (_, i) => `${FINGERPRINT_VERSION}.${i}.${parsed.signature.slice(i * digits, (i + 1) * digits)}`
+  );
+}
+
+export async function fingerprintTrack(buffer: AudioBuffer, file: Blob | null = null): Promise<TrackFingerprint> {
+  const [acoustic, fileSha256] = await Promise.all([
+    acousticFingerprint(buffer),
+    file && file.size > 0 && file.size <= MAX_HASHED_FILE_BYTES ? file.arrayBuffer().then(sha256Hex) : Promise.resolve(null),
+  ]);
+  return { acoustic, fileSha256 };
+}
@@ -0,0 +1,14 @@
+// src/audio/fingerprint.worker.ts
+// Runs the chroma analysis (an FFT over the whole track) off the main thread.
+import { chromaSignature } from './chroma';
+
+export interface FingerprintJob {
+  /** Mono, downsampled; transferred, not copied. */
+  samples: Float32Array;
+  rate: number;
+}
+
+self.onmessage = (e: MessageEvent<FingerprintJob>) => {
+  const { samples, rate } = e.data;
+  self.postMessage(chromaSignature(samples, rate));
+};
@@ -0,0 +1,94 @@
+// src/audio/region.ts
+
+/** A slice of a track, in seconds from its start. */
+export interface AudioRegion {
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_REGION_SECONDS = 36;
+
+const ENERGY_WINDOW = 0.1; // seconds per energy frame for the auto-pick
+
+export function clampRegion(region: AudioRegion, duration: number, minLength = 1): AudioRegion {
+  const start = Math.min(Math.max(0, region.start), Math.max(0, duration - minLength));
+  const end = Math.min(duration, Math.max(start + minLength, region.end));
+  return { start, end };
+}
+
+/**
+ * Copies `region` of `buffer` into a new buffer, so playback, recording and
+ * offline rendering all see the slice as a track of its own.
+ */
+export function sliceAudioBuffer(buffer: AudioBuffer, region: AudioRegion): AudioBuffer {
+  const from = Math.floor(Math.max(0, region.start) * buffer.sampleRate);
+  const to = Math.min(buffer.length, Math.ceil(region.end * buffer.sampleRate));
+  const slice = new AudioBuffer({
+    numberOfChannels: buffer.numberOfChannels,
+    length: Math.max(1, to - from),
+    sampleRate: buffer.sampleRate,
+  });
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    slice.copyToChannel(buffer.getChannelData(c).subarray(from, to), c);
+  }
+  return slice;
+}
+
+/** Peak amplitude per bucket (0..1, all channels), for drawing a waveform overview. */
+export function waveformPeaks(buffer: AudioBuffer, buckets: number): Float32Array {
+  const peaks = new Float32Array(buckets);
+  const perBucket = Math.max(1, Math.floor(buffer.length / buckets));
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let b = 0; b < buckets; b++) {
+      const from = b * perBucket;
+      const to = Math.min(data.length, from + perBucket);
+      let peak = peaks[b];
+      for (let i = from; i < to; i++) {
+        const v = Math.abs(data[i]);
+        if (v > peak) peak = v;
+      }
+      peaks[b] = Math.min(1, peak);
+    }
+  }
+  return peaks;
+}
+
+/**
+ * The `length`-second window with the highest mean energy (RMS², all channels).
+ * Returns the whole track when it is shorter than `length`.
+ */
+export function mostEnergeticRegion(buffer: AudioBuffer, length = DEFAULT_REGION_SECONDS): AudioRegion {
+  if (buffer.duration <= length) return { start: 0, end: buffer.duration };
+
+  const frameSize = Math.max(1, Math.floor(ENERGY_WINDOW * buffer.sampleRate));
+  const frames = Math.floor(buffer.length / frameSize);
+  const energy = new Float64Array(frames);
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let f = 0; f < frames; f++) {
+      let sum = 0;
+      for (let i = f * frameSize, end = i + frameSize; i < end; i++) sum += data[i] * data[i];
+      energy[f] += sum;
+    }
+  }
+
+  // Sliding sum over `length` seconds worth of frames
+  const span = Math.min(frames, Math.round(length / ENERGY_WINDOW));
+  let sum = 0;
+  for (let f = 0; f < span; f++) sum += energy[f];
+  let best = sum;
+  let bestFrame = 0;
+  for (let f = span; f < frames; f++) {
+    sum += energy[f] - energy[f - span];
+    if (sum > best) {
+      best = sum;
+      bestFrame = f - span + 1;
+    }
+  }
+
+  const start = (bestFrame * frameSize) / buffer.sampleRate;
+  return clampRegion({ start, end: start + length }, buffer.duration);
+}
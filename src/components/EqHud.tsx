@@ -0,0 +1,107 @@
+// src/components/EqHud.tsx
+import React, { useMemo } from 'react';
+import { BAND_COLORS } from '../config/bandColors';
+import { EQ_LAYOUT, bandFrequencies, formatFrequency, rowToGainDB } from '../config/eqLayout';
+
+interface EqHudProps {
+  /** Row per band, -1 for bands that haven't been touched (flat). */
+  activeRows: number[];
+  /** The band last played, or null before the first touch. */
+  focusBand: number | null;
+}
+
+const BAND_HZ = bandFrequencies(EQ_LAYOUT);
+const { minDB, maxDB } = EQ_LAYOUT.gainRange;
+// SVG units: one per band across, gain range down
+const CURVE_HEIGHT = 12;
+
+const gainOf = (row: number) => (row >= 0 ? rowToGainDB(EQ_LAYOUT, row) : 0);
+const yOf = (db: number) => ((maxDB - db) / (maxDB - minDB)) * CURVE_HEIGHT;
+
+function formatGain(db: number) {
+  return `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`;
+}
+
+/**
+ * Readout of what the player is doing: the band under their finger (centre
+ * frequency and gain) over the whole EQ curve, one bar per band in its band
+ * colour. Plain DOM on top of the canvas, so it never ends up in the take.
+ */
+export const EqHud: React.FC<EqHudProps> = ({ activeRows, focusBand }) => {
+  const gains = useMemo(() => activeRows.map(gainOf), [activeRows]);
+  const zeroY = yOf(0);
+  const curve = gains.map((db, band) => `${band + 0.5},${yOf(db)}`).join(' ');
+
+  return (
+    <div
+      aria-hidden="true"
+      style={{
+        position: 'absolute',
+        top: '16px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        width: 'min(90vw, 540px)',
+        zIndex: 20,
+        padding: '8px 12px',
+        boxSizing: 'border-box',
+        background: 'rgba(5, 8, 16, 0.6)',
+        border: '1px solid rgba(0, 255, 102, 0.4)',
+        color: '#00ff66',
+        fontFamily: 'monospace',
+        fontSize: '0.8rem',
+        pointerEvents: 'none',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '6px' }}>
+        {focusBand === null ? (
+          <span style={{ opacity: 0.7 }}>TOUCH A BAND</span>
+        ) : (
+          <>
+            <span style={{ color: BAND_COLORS[focusBand].hex }}>BAND {focusBand + 1}</span>
+            <span>{formatFrequency(BAND_HZ[focusBand])}</span>
+            <span>{formatGain(gains[focusBand])}</span>
+          </>
+        )}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${EQ_LAYOUT.bands} ${CURVE_HEIGHT}`}
+        preserveAspectRatio="none"
+        style={{ display: 'block', width: '100%', height: '64px' }}
+      >
+        {gains.map((db, band) => {
+          const y = yOf(db);
+          return (
+            <rect
+              key={band}
+              x={band + 0.15}
+              width={0.7}
+              y={Math.min(y, zeroY)}
+              height={Math.max(0.05, Math.abs(y - zeroY))}
+              fill={BAND_COLORS[band].hex}
+              opacity={band === focusBand ? 1 : activeRows[band] >= 0 ? 0.7 : 0.3}
+            />
+          );
+        })}
+        <line
+          x1={0}
+          x2={EQ_LAYOUT.bands}
+          y1={zeroY}
+          y2={zeroY}
+          stroke="rgba(0, 255, 102, 0.4)"
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+        <polyline points={curve} fill="none" stroke="#c9ffd8" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      </svg>
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '4px', fontSize: '0.65rem', opacity: 0.7 }}>
+        <span>{formatFrequency(BAND_HZ[0])}</span>
+        <span>
+          {minDB} / +{maxDB} dB
+        </span>
+        <span>{formatFrequency(BAND_HZ[BAND_HZ.length - 1])}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+// src/components/EqSculpture.tsx
+import React, { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { BandColumn } from './BandColumn';
+import { Ribbon } from './Ribbon';
+import { BAND_COLORS } from '../config/bandColors';
+
+interface EqSculptureProps {
+  /** Row per band, -1 for untouched. */
+  rows: number[];
+  bands: number;
+  maxRows: number;
+  /** Receives the sculpture's root, for exporting just the model (no lights or helpers). */
+  modelRef?: React.Ref<THREE.Group>;
+}
+
+/** Drag to orbit, wheel/pinch to zoom; eases to a stop. */
+function OrbitRig() {
+  const { camera, gl } = useThree();
+  const controlsRef = useRef<OrbitControls | null>(null);
+
+  useEffect(() => {
+    const controls = new OrbitControls(camera, gl.domElement);
+    controls.enableDamping = true;
+    controls.enablePan = false;
+    controls.minDistance = 1.5;
+    controls.maxDistance = 6;
+    controlsRef.current = controls;
+    return () => {
+      controls.dispose();
+      controlsRef.current = null;
+    };
+  }, [camera, gl]);
+
+  useFrame(() => controlsRef.current?.update());
+  return null;
+}
+
+/**
+ * The EQ as an object: one column of spheres per band with the row it was
+ * left at lit up, and the ribbon threaded through every band's level.
+ */
+export const EqSculpture: React.FC<EqSculptureProps> = ({ rows, bands, maxRows, modelRef }) => {
+  return (
+    <>
+      <ambientLight intensity={0.6} />
+      <pointLight position={[0, 1.5, 2.5]} intensity={20} />
+      <OrbitRig />
+
+      <group ref={modelRef} name="eq-sculpture">
+        {Array.from({ length: bands }, (_, band) => (
+          <BandColumn
+            key={band}
+            index={band}
+            colorData={BAND_COLORS[band]}
+            activeRow={rows[band] ?? -1}
+            maxRows={maxRows}
+            maxBands={bands}
+          />
+        ))}
+        <Ribbon finalEQState={rows} maxRows={maxRows} maxBands={bands} isVisible />
+      </group>
+    </>
+  );
+};
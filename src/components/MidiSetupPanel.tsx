@@ -0,0 +1,144 @@
+// src/components/MidiSetupPanel.tsx
+import React, { useEffect, useRef } from 'react';
+import { describeControl } from '../lib/midiMapping';
+import type { MidiInput } from '../hooks/useMidiInput';
+
+interface MidiSetupPanelProps {
+  midi: MidiInput;
+  bands: number;
+  rows: number;
+  onClose: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: '1px solid #00ff66',
+  color: '#00ff66',
+  fontFamily: 'monospace',
+  padding: '6px 12px',
+  cursor: 'pointer',
+};
+
+/**
+ * MIDI learn: touch a control, then click the band column (knobs/faders) or
+ * the band/row cell (pads) it should drive. The grid is laid out like the
+ * ritual surface, low bands left and boost at the top.
+ */
+export const MidiSetupPanel: React.FC<MidiSetupPanelProps> = ({ midi, bands, rows, onClose }) => {
+  const { status, deviceNames, bindings, isLearning, captured, startLearning, stopLearning, assign, unbind } = midi;
+  const doneButtonRef = useRef<HTMLButtonElement | null>(null);
+
+  useEffect(() => {
+    doneButtonRef.current?.focus();
+  }, []);
+
+  // The panel is the learn UI; learning ends with it
+  useEffect(() => {
+    startLearning();
+    return stopLearning;
+  }, [startLearning, stopLearning]);
+
+  const handleGridClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!captured) return;
+    const r = e.currentTarget.getBoundingClientRect();
+    const band = Math.min(bands - 1, Math.floor(((e.clientX - r.left) / r.width) * bands));
+    const row = Math.min(rows - 1, Math.floor((1 - (e.clientY - r.top) / r.height) * rows));
+    assign(band, row);
+  };
+
+  let prompt: string;
+  if (status === 'unsupported') prompt = "This browser doesn't support Web MIDI. Try Chrome or Edge.";
+  else if (status === 'denied') prompt = 'MIDI access was blocked. Allow it in your site settings and reopen this panel.';
+  else if (!deviceNames.length) prompt = 'No MIDI devices found. Plug one in — it will show up here.';
+  else if (!captured) prompt = 'Move a knob or fader, or hit a pad…';
+  else if (captured.kind === 'cc') prompt = `${describeControl(captured)} — click the band it should sweep`;
+  else prompt = `${describeControl(captured)} — click the band and level it should set`;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="MIDI setup"
+      style={{
+        position: 'absolute',
+        inset: 0,
+        zIndex: 60,
+        background: 'rgba(5, 8, 16, 0.95)',
+        color: '#00ff66',
+        fontFamily: 'monospace',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: '12px',
+        padding: '16px',
+        boxSizing: 'border-box',
+        overflowY: 'auto',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', width: 'min(100%, 900px)' }}>
+        <div>MIDI SETUP{deviceNames.length ? ` · ${deviceNames.join(', ')}` : ''}</div>
+        <button ref={doneButtonRef} style={buttonStyle} onClick={onClose}>
+          DONE
+        </button>
+      </div>
+
+      <div aria-live="polite" style={{ minHeight: '1.5em', textAlign: 'center' }}>
+        {isLearning ? prompt : ''}
+      </div>
+
+      <div
+        onClick={handleGridClick}
+        style={{
+          position: 'relative',
+          width: 'min(100%, 900px)',
+          aspectRatio: `${bands} / ${Math.max(1, rows / 2)}`,
+          border: '1px solid rgba(0, 255, 102, 0.4)',
+          backgroundImage: `repeating-linear-gradient(90deg, rgba(0, 255, 102, 0.12) 0 1px, transparent 1px ${100 / bands}%)`,
+          cursor: captured ? 'crosshair' : 'default',
+        }}
+      >
+        {bindings.map(binding => {
+          const left = (binding.band / bands) * 100;
+          const isPad = 'row' in binding;
+          return (
+            <div
+              key={describeControl(binding.control)}
+              title={describeControl(binding.control)}
+              style={{
+                position: 'absolute',
+                left: `${left}%`,
+                width: `${100 / bands}%`,
+                top: isPad ? `${((rows - 1 - binding.row) / rows) * 100}%` : 0,
+                height: isPad ? `${100 / rows}%` : '100%',
+                background: isPad ? '#00ff66' : 'rgba(0, 255, 102, 0.35)',
+                pointerEvents: 'none',
+              }}
+            />
+          );
+        })}
+      </div>
+
+      {bindings.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', width: 'min(100%, 900px)' }}>
+          {bindings.map(binding => (
+            <button
+              key={describeControl(binding.control)}
+              style={{ ...buttonStyle, fontSize: '0.75rem' }}
+              title="Remove this mapping"
+              onClick={() => unbind(binding.control)}
+            >
+              {describeControl(binding.control)} → BAND {binding.band + 1}
+              {'row' in binding ? ` · ROW ${binding.row + 1}` : ''} ✕
+            </button>
+          ))}
+          <button
+            style={{ ...buttonStyle, fontSize: '0.75rem', borderColor: '#ff4d6d', color: '#ff4d6d' }}
+            onClick={midi.clearBindings}
+          >
+            CLEAR ALL
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
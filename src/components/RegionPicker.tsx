@@ -0,0 +1,249 @@
+// src/components/RegionPicker.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { clampRegion, DEFAULT_REGION_SECONDS, mostEnergeticRegion, waveformPeaks } from '../audio/region';
+import type { AudioRegion } from '../audio/region';
+
+const WAVEFORM_BUCKETS = 600;
+const MIN_REGION_SECONDS = 1;
+// Keyboard steps: arrows, and Shift+arrows or Page Up/Down
+const KEY_STEP_SECONDS = 1;
+const PAGE_STEP_SECONDS = 10;
+
+type DragMode = 'start' | 'end' | 'move';
+
+interface RegionPickerProps {
+  buffer: AudioBuffer;
+  /** Shown under the title, e.g. when the track was trimmed on load. */
+  notice?: string | null;
+  onConfirm: (region: AudioRegion) => void;
+  onCancel?: () => void;
+}
+
+function formatTime(seconds: number) {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+/**
+ * `region` with one handle put at `seconds`: the in or out point, or for
+ * 'move' the start of the whole section. Keeps at least MIN_REGION_SECONDS.
+ */
+function placeHandle(region: AudioRegion, mode: DragMode, seconds: number, duration: number): AudioRegion {
+  if (mode === 'start') return { start: clamp(seconds, 0, region.end - MIN_REGION_SECONDS), end: region.end };
+  if (mode === 'end') return { start: region.start, end: clamp(seconds, region.start + MIN_REGION_SECONDS, duration) };
+  const length = region.end - region.start;
+  const start = clamp(seconds, 0, duration - length);
+  return { start, end: start + length };
+}
+
+const buttonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: '1px solid #00ff66',
+  color: '#00ff66',
+  fontFamily: 'monospace',
+  padding: '8px 16px',
+  cursor: 'pointer',
+};
+
+const handleStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: 0,
+  bottom: 0,
+  width: '14px',
+  marginLeft: '-7px',
+  cursor: 'ew-resize',
+  touchAction: 'none',
+  display: 'flex',
+  justifyContent: 'center',
+};
+
+/**
+ * Waveform overview with draggable in/out points. Starts on the most
+ * energetic 36 s of the track.
+ */
+export const RegionPicker: React.FC<RegionPickerProps> = ({ buffer, notice, onConfirm, onCancel }) => {
+  const duration = buffer.duration;
+  const [region, setRegion] = useState<AudioRegion>(() => mostEnergeticRegion(buffer));
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const trackRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<{ mode: DragMode; originTime: number; originRegion: AudioRegion } | null>(null);
+
+  const peaks = useMemo(() => waveformPeaks(buffer, WAVEFORM_BUCKETS), [buffer]);
+
+  // -- Waveform --
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const { width, height } = canvas;
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = '#00ff66';
+    const barWidth = width / peaks.length;
+    peaks.forEach((peak, i) => {
+      const h = Math.max(1, peak * height);
+      ctx.fillRect(i * barWidth, (height - h) / 2, Math.max(1, barWidth - 1), h);
+    });
+  }, [peaks]);
+
+  // -- Dragging --
+  const timeAt = (clientX: number) => {
+    const r = trackRef.current!.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (clientX - r.left) / r.width)) * duration;
+  };
+
+  const beginDrag = (mode: DragMode) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    trackRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, originTime: timeAt(e.clientX), originRegion: region };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const t = timeAt(e.clientX);
+    const { mode, originRegion } = drag;
+    const target = mode === 'move' ? originRegion.start + t - drag.originTime : t;
+    setRegion(placeHandle(originRegion, mode, target, duration));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+    setRegion(r => clampRegion(r, duration, MIN_REGION_SECONDS));
+  };
+
+  // -- Keyboard: each handle is a slider --
+  const handleKeyDown = (mode: DragMode) => (e: React.KeyboardEvent) => {
+    const current = mode === 'end' ? region.end : region.start;
+    const step = e.shiftKey ? PAGE_STEP_SECONDS : KEY_STEP_SECONDS;
+    const targets: Record<string, number> = {
+      ArrowLeft: current - step,
+      ArrowDown: current - step,
+      ArrowRight: current + step,
+      ArrowUp: current + step,
+      PageDown: current - PAGE_STEP_SECONDS,
+      PageUp: current + PAGE_STEP_SECONDS,
+      Home: 0,
+      End: duration,
+    };
+    if (!(e.key in targets)) return;
+    e.preventDefault();
+    setRegion(placeHandle(region, mode, targets[e.key], duration));
+  };
+
+  const sliderProps = (mode: DragMode, label: string, now: number, min: number, max: number, text: string) => ({
+    role: 'slider',
+    tabIndex: 0,
+    'aria-label': label,
+    'aria-valuenow': Math.round(now),
+    'aria-valuemin': Math.round(min),
+    'aria-valuemax': Math.round(max),
+    'aria-valuetext': text,
+    onKeyDown: handleKeyDown(mode),
+    onPointerDown: beginDrag(mode),
+  });
+
+  const left = (region.start / duration) * 100;
+  const width = ((region.end - region.start) / duration) * 100;
+  const length = region.end - region.start;
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        inset: 0,
+        backgroundColor: 'rgba(0,0,0,0.85)',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '1rem',
+        zIndex: 20,
+        color: '#00ff66',
+        fontFamily: 'monospace',
+        textAlign: 'center',
+        padding: '1rem',
+      }}
+    >
+      <div>CHOOSE THE SECTION TO PERFORM</div>
+      {notice && <div style={{ fontSize: '0.75rem', opacity: 0.8, maxWidth: '480px' }}>{notice}</div>}
+
+      <div
+        ref={trackRef}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        style={{ position: 'relative', width: 'min(90vw, 900px)', height: '120px', touchAction: 'none' }}
+      >
+        <canvas
+          ref={canvasRef}
+          width={1200}
+          height={240}
+          style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', opacity: 0.6 }}
+        />
+
+        <div
+          {...sliderProps(
+            'move',
+            'Section',
+            region.start,
+            0,
+            duration - length,
+            `${formatTime(region.start)} to ${formatTime(region.end)}`
+          )}
+          style={{
+            position: 'absolute',
+            top: 0,
+            bottom: 0,
+            left: `${left}%`,
+            width: `${width}%`,
+            background: 'rgba(0, 255, 102, 0.15)',
+            borderTop: '1px solid #00ff66',
+            borderBottom: '1px solid #00ff66',
+            cursor: 'grab',
+            touchAction: 'none',
+          }}
+        />
+        <div
+          {...sliderProps('start', 'In point', region.start, 0, region.end - MIN_REGION_SECONDS, formatTime(region.start))}
+          style={{ ...handleStyle, left: `${left}%` }}
+        >
+          <div style={{ width: '2px', background: '#00ff66' }} />
+        </div>
+        <div
+          {...sliderProps('end', 'Out point', region.end, region.start + MIN_REGION_SECONDS, duration, formatTime(region.end))}
+          style={{ ...handleStyle, left: `${left + width}%` }}
+        >
+          <div style={{ width: '2px', background: '#00ff66' }} />
+        </div>
+      </div>
+
+      <div>
+        {formatTime(region.start)} – {formatTime(region.end)} ({Math.round(region.end - region.start)}s)
+      </div>
+
+      <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap', justifyContent: 'center' }}>
+        <button style={buttonStyle} onClick={() => setRegion(mostEnergeticRegion(buffer))}>
+          AUTO-PICK {DEFAULT_REGION_SECONDS}S
+        </button>
+        <button style={buttonStyle} onClick={() => setRegion({ start: 0, end: duration })}>
+          FULL TRACK
+        </button>
+        {onCancel && (
+          <button style={buttonStyle} onClick={onCancel}>
+            CANCEL
+          </button>
+        )}
+        <button
+          style={{ ...buttonStyle, background: '#00ff66', color: '#000' }}
+          onClick={() => onConfirm(clampRegion(region, duration, MIN_REGION_SECONDS))}
+        >
+          USE THIS SECTION
+        </button>
+      </div>
+    </div>
+  );
+};
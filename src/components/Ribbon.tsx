@@ -1,4 +1,4 @@
-import React, { useRef, useMemo } from 'react';
+import React, { useEffect, useRef, useMemo } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
 
@@ -9,20 +9,22 @@ interface RibbonProps {
   isVisible: boolean;
 }
 
-export const Ribbon: React.FC<RibbonProps> = ({ 
-  finalEQState, 
-  maxRows, 
+export const Ribbon: React.FC<RibbonProps> = ({
+  finalEQState,
+  maxRows,
   maxBands,
-  isVisible 
+  isVisible
 }) => {
-  const meshRef = useRef<THREE.Mesh>(null);
-  
+  const meshRef = useRef<THREE.Mesh<THREE.TubeGeometry, THREE.MeshBasicMaterial>>(null);
+
   const geometry = useMemo(() => {
     if (!isVisible || finalEQState.length === 0) return null;
 
     const points: THREE.Vector3[] = [];
     for (let i = 0; i < maxBands; i++) {
-        const rowIndex = finalEQState[i] !== undefined ? finalEQState[i] : 0;
+        // Untouched bands (-1) sit flat, halfway up
+        const row = finalEQState[i] ?? -1;
+        const rowIndex = row >= 0 ? row : (maxRows - 1) / 2;
         const x = (i / (maxBands - 1)) * 2 - 1;
         const y = (rowIndex / (maxRows - 1)) * 2 - 1;
         points.push(new THREE.Vector3(x, y, 0.05));
@@ -32,13 +34,15 @@ export const Ribbon: React.FC<RibbonProps> = ({
     return new THREE.TubeGeometry(curve, 64, 0.01, 8, false);
   }, [finalEQState, maxBands, maxRows, isVisible]);
 
-  useFrame((state: any) => {
+  // The tube is rebuilt whenever the EQ changes; free the old one
+  useEffect(() => () => geometry?.dispose(), [geometry]);
+
+  useFrame(({ clock }) => {
     if (meshRef.current && isVisible) {
-       const time = state.clock.getElapsedTime();
+       const time = clock.getElapsedTime();
        const r = Math.sin(time * 3) * 0.5 + 0.5;
        const g = Math.sin(time * 3 + 2) * 0.5 + 0.5;
        const b = Math.sin(time * 3 + 4) * 0.5 + 0.5;
-       // @ts-ignore - Material color set is valid but TS is strict here
        meshRef.current.material.color.setRGB(r, g, b);
     }
   });
@@ -50,4 +54,4 @@ export const Ribbon: React.FC<RibbonProps> = ({
       <meshBasicMaterial attach="material" color={0xffffff} transparent opacity={0.8} />
     </mesh>
   );
-};
\ No newline at end of file
+};
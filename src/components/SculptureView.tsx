@@ -0,0 +1,203 @@
+// src/components/SculptureView.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas } from '@react-three/fiber';
+import type * as THREE from 'three';
+
+import { useAnalytics } from '../hooks/useAnalytics';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import { EqSculpture } from './EqSculpture';
+import { EQ_LAYOUT } from '../config/eqLayout';
+import { eqStateAt } from '../lib/gestureLog';
+import type { GestureLog } from '../lib/gestureLog';
+import { canvasToPng, toGlb } from '../lib/sculptureExport';
+import { downloadBlob } from '../lib/download';
+
+// However long the take was, growth plays back in this many seconds
+const GROW_SECONDS = 8;
+
+type SculptureFormat = 'png' | 'glb';
+
+interface SculptureViewProps {
+  /** Row per band at the end of the take, -1 for untouched; only used without a log. */
+  finalEQState: number[];
+  /** Replayed for the growth animation; without one the sculpture starts grown. */
+  gestureLog: GestureLog | null;
+  onBack: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: '1px solid #00ff66',
+  color: '#00ff66',
+  fontFamily: 'monospace',
+  padding: '8px 16px',
+  cursor: 'pointer',
+};
+
+/**
+ * The take's final EQ as a 3D object to orbit and keep. Growth replays the
+ * gesture log so the ribbon bends into shape over the performance timeline.
+ */
+export const SculptureView: React.FC<SculptureViewProps> = ({ finalEQState, gestureLog, onBack }) => {
+  const { trackEvent } = useAnalytics();
+  const reducedMotion = usePrefersReducedMotion();
+
+  // 0..1 along the take; starts grown for reduced motion or without a log to replay
+  const [t01, setT01] = useState(() => (reducedMotion || !gestureLog ? 1 : 0));
+  const [isGrowing, setIsGrowing] = useState(() => !reducedMotion && !!gestureLog);
+  const [exporting, setExporting] = useState<SculptureFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const modelRef = useRef<THREE.Group>(null);
+
+  // Growth ends on the last gesture, not on the silence after it
+  const takeSeconds = useMemo(() => {
+    if (!gestureLog) return 0;
+    const last = gestureLog.events[gestureLog.events.length - 1];
+    return last ? last.t : gestureLog.duration;
+  }, [gestureLog]);
+
+  // The log is the source of truth for the final shape too: at t01 = 1 it has
+  // replayed every gesture
+  const rows = useMemo(
+    () => (gestureLog ? eqStateAt(gestureLog, t01 * takeSeconds) : finalEQState),
+    [finalEQState, gestureLog, t01, takeSeconds]
+  );
+
+  const growing = isGrowing && t01 < 1;
+
+  useEffect(() => {
+    if (!growing) return;
+    let frame = 0;
+    let last = performance.now();
+
+    const tick = (now: number) => {
+      const dt = (now - last) / 1000;
+      last = now;
+      setT01(prev => Math.min(1, prev + dt / GROW_SECONDS));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [growing]);
+
+  const handleGrow = () => {
+    if (growing) {
+      setIsGrowing(false);
+      return;
+    }
+    if (t01 >= 1) setT01(0);
+    setIsGrowing(true);
+    trackEvent('sculpture_grow');
+  };
+
+  const handleScrub = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setIsGrowing(false);
+    setT01(Number(e.target.value));
+  };
+
+  const handleExport = async (format: SculptureFormat) => {
+    if (exporting) return;
+    setExporting(format);
+    setExportError(null);
+    try {
+      let blob: Blob;
+      if (format === 'png') {
+        if (!canvasRef.current) throw new Error('Sculpture is not rendered yet');
+        blob = await canvasToPng(canvasRef.current);
+      } else {
+        if (!modelRef.current) throw new Error('Sculpture is not rendered yet');
+        blob = await toGlb(modelRef.current);
+      }
+      downloadBlob(blob, `4B4KU5-sculpture-${Date.now()}.${format}`);
+      trackEvent('sculpture_export', { format });
+    } catch (e) {
+      console.error('Sculpture export failed:', e);
+      setExportError(`Couldn't export the ${format.toUpperCase()}. Try again.`);
+      trackEvent('sculpture_export_error', { format });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, background: '#050810', color: '#00ff66', fontFamily: 'monospace' }}>
+      <div role="img" aria-label="3D sculpture of your final EQ" style={{ position: 'absolute', inset: 0 }}>
+        <Canvas
+          dpr={[1, 2]}
+          gl={{ preserveDrawingBuffer: true, antialias: true }}
+          camera={{ position: [0, 0.4, 3], fov: 50 }}
+          onCreated={({ gl }) => {
+            canvasRef.current = gl.domElement;
+          }}
+          style={{ position: 'absolute', inset: 0 }}
+        >
+          <color attach="background" args={['#050810']} />
+          <EqSculpture rows={rows} bands={EQ_LAYOUT.bands} maxRows={EQ_LAYOUT.rows} modelRef={modelRef} />
+        </Canvas>
+      </div>
+
+      <button style={{ ...buttonStyle, position: 'absolute', top: '16px', left: '16px' }} onClick={onBack}>
+        ← BACK
+      </button>
+      <div
+        aria-hidden="true"
+        style={{
+          position: 'absolute',
+          top: '16px',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          letterSpacing: '0.2em',
+          pointerEvents: 'none',
+        }}
+      >
+        EQ SCULPTURE
+      </div>
+
+      <div
+        style={{
+          position: 'absolute',
+          left: 0,
+          right: 0,
+          bottom: 0,
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          gap: '12px',
+          padding: '12px 16px',
+          background: 'linear-gradient(transparent, rgba(0,0,0,0.8))',
+        }}
+      >
+        {gestureLog && (
+          <>
+            <button style={buttonStyle} onClick={handleGrow}>
+              {growing ? 'PAUSE' : 'GROW'}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.001}
+              value={t01}
+              onChange={handleScrub}
+              aria-label="Performance timeline"
+              style={{ flex: 1, minWidth: '120px', accentColor: '#00ff66' }}
+            />
+          </>
+        )}
+        <button style={buttonStyle} onClick={() => handleExport('png')} disabled={!!exporting}>
+          {exporting === 'png' ? 'SAVING…' : 'PNG'}
+        </button>
+        <button style={buttonStyle} onClick={() => handleExport('glb')} disabled={!!exporting}>
+          {exporting === 'glb' ? 'BUILDING…' : 'GLB'}
+        </button>
+        {exportError && (
+          <span role="alert" style={{ color: '#ff4d6d' }}>
+            {exportError}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,349 @@
+// src/components/flowFieldShaders.ts
+// Shaders and uniform helpers shared by the on-screen flow field and the
+// offscreen poster print renderer.
+import * as THREE from 'three';
+import { BAND_COLORS } from '../config/bandColors';
+import { EQ_LAYOUT } from '../config/eqLayout';
+import type { GesturePointer } from '../lib/gestureLog';
+
+const MAX_BANDS = EQ_LAYOUT.bands;
+// Must match MAX_POINTERS in the shaders; extra touches are ignored.
+export const MAX_POINTERS = 10;
+
+export function makePaletteArray() {
+  const arr = new Float32Array(MAX_BANDS * 3);
+  BAND_COLORS.forEach((c, i) => {
+    arr[i * 3 + 0] = c.rgb[0] / 255;
+    arr[i * 3 + 1] = c.rgb[1] / 255;
+    arr[i * 3 + 2] = c.rgb[2] / 255;
+  });
+  return arr;
+}
+
+export const FSQ_VERT = /* glsl */ `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+/**
+ * SIM PASS (your “fuse + incense” behavior)
+ */
+export const SIM_FRAG = /* glsl */ `
+  precision highp float;
+
+  #define MAX_POINTERS 10
+  #define MAX_BANDS ${MAX_BANDS}
+
+  uniform sampler2D uPrev;
+  uniform vec3 uPointers[MAX_POINTERS];    // xy 0..1, z down 0/1
+  uniform vec2 uPointerVels[MAX_POINTERS]; // delta in 0..1 per frame
+  uniform int uPointerCount;
+  uniform vec2 uRes;          // px
+  uniform float uTime;
+  uniform float uBandEnergy[MAX_BANDS]; // 0..1 per EQ band
+  uniform float uRms;         // 0..1
+  uniform float uOnset;       // 1 on onset, decays
+  uniform float uBeat;        // 1 on beat, decays
+  uniform float uMotion;      // 1 normally, lower for reduced motion
+
+  varying vec2 vUv;
+
+  float bandEnergy(float x01) {
+    float b = clamp(floor(x01 * float(MAX_BANDS)), 0.0, float(MAX_BANDS - 1));
+    return uBandEnergy[int(b)];
+  }
+
+  float hash(vec2 p) {
+    p = fract(p * vec2(123.34, 345.45));
+    p += dot(p, p + 34.345);
+    return fract(p.x * p.y);
+  }
+
+  float vnoise(vec2 p) {
+    vec2 i = floor(p);
+    vec2 f = fract(p);
+    float a = hash(i);
+    float b = hash(i + vec2(1.0, 0.0));
+    float c = hash(i + vec2(0.0, 1.0));
+    float d = hash(i + vec2(1.0, 1.0));
+    vec2 u = f * f * (3.0 - 2.0 * f);
+    return mix(a, b, u.x) + (c - a) * u.y * (1.0 - u.x) + (d - b) * u.x * u.y;
+  }
+
+  vec2 curl(vec2 p) {
+    float e = 0.0025;
+    float n1 = vnoise(p + vec2(e, 0.0));
+    float n2 = vnoise(p - vec2(e, 0.0));
+    float n3 = vnoise(p + vec2(0.0, e));
+    float n4 = vnoise(p - vec2(0.0, e));
+    vec2 g = vec2(n1 - n2, n3 - n4);
+    return vec2(g.y, -g.x);
+  }
+
+  void main() {
+    vec2 uv = vUv;
+    vec2 aspect = vec2(uRes.x / min(uRes.x, uRes.y), uRes.y / min(uRes.x, uRes.y));
+
+    // Advection
+    vec2 p = uv * 1.65;
+    vec2 vel = curl(p + uTime * 0.05);
+
+    float activity = mix(0.25, 1.0, smoothstep(0.2, 0.9, uv.y));
+
+    // Gentler upward drift than original
+    vel += vec2(0.0, 0.06 * activity);
+
+    // Louder passages stir the field harder
+    float advectStrength = 0.010 * activity * uMotion * (1.0 + uRms * 1.5 + uBeat * 0.5);
+    vec2 advect = vel * advectStrength / aspect;
+
+    vec4 prev = texture2D(uPrev, clamp(uv - advect, 0.0, 1.0));
+
+    // Bloom (small)
+    vec2 px = 1.0 / uRes;
+    vec4 c0 = prev;
+    vec4 c1 = texture2D(uPrev, clamp(uv + vec2(px.x, 0.0), 0.0, 1.0));
+    vec4 c2 = texture2D(uPrev, clamp(uv - vec2(px.x, 0.0), 0.0, 1.0));
+    vec4 c3 = texture2D(uPrev, clamp(uv + vec2(0.0, px.y), 0.0, 1.0));
+    vec4 c4 = texture2D(uPrev, clamp(uv - vec2(0.0, px.y), 0.0, 1.0));
+    vec4 blur = (c0 * 0.60 + (c1 + c2 + c3 + c4) * 0.10);
+
+    vec4 state = mix(prev, blur, 0.10);
+
+    // Decay
+    float i = state.r;
+    float decay = mix(0.995, 0.985, smoothstep(0.2, 1.0, i));
+    state.r *= decay;
+    if (state.r < 0.0015) state.r = 0.0;
+
+    // Fuse injection behind motion, once per active touch
+    float coreR = 0.008;
+    float auraR = 0.025;
+
+    for (int k = 0; k < MAX_POINTERS; k++) {
+      if (k >= uPointerCount) break;
+
+      vec3 ptr = uPointers[k];
+      if (ptr.z < 0.5) continue;
+
+      vec2 center = ptr.xy;
+      float speed = length(uPointerVels[k]);
+      if (speed > 0.0005) {
+        vec2 dir = normalize(uPointerVels[k]);
+        center = ptr.xy - dir * 0.08;
+      }
+
+      vec2 d = (uv - center) * aspect;
+      float dist = length(d);
+
+      float core = 1.0 - smoothstep(0.0, coreR, dist);
+      float aura = 1.0 - smoothstep(coreR, auraR, dist);
+
+      // Ink swells with the energy of the band under the finger
+      float pulse = 0.7 + 0.6 * bandEnergy(ptr.x) + 0.4 * uOnset;
+      float add = (core * 0.65 + aura * 0.12) * pulse;
+      if (add > 0.0005) {
+        state.r = min(1.0, state.r + add);
+        state.g = mix(state.g, ptr.y, 0.25);
+        state.b = mix(state.b, ptr.x, 0.35);
+        state.a = mix(state.a, hash(uv * uRes + uTime + float(k)), 0.35);
+      }
+    }
+
+    gl_FragColor = state;
+  }
+`;
+
+/**
+ * RENDER PASS (palette + “colored smoke” fix)
+ *
+ * Changes vs your current:
+ * - No grayscale-mixing in “smoke” stage (keeps chroma).
+ * - More emissive highs (bright color like your reference).
+ * - Powder is more colorful + less muddy (grain uses chroma, not gray residue).
+ * - Background is darker/cleaner so pigment pops.
+ */
+export const RENDER_FRAG = /* glsl */ `
+  precision highp float;
+
+  #define MAX_BANDS ${MAX_BANDS}
+  #define MAX_POINTERS 10
+
+  uniform sampler2D uTex;
+  uniform vec3 uPointers[MAX_POINTERS];
+  uniform int uPointerCount;
+  uniform vec2 uRes;
+  uniform float uTime;
+  uniform float uCountdown;
+  uniform float uPalette[MAX_BANDS * 3];
+  uniform float uBandEnergy[MAX_BANDS];
+  uniform float uBeat;
+
+  varying vec2 vUv;
+
+  float hash(vec2 p) {
+    p = fract(p * vec2(123.34, 345.45));
+    p += dot(p, p + 34.345);
+    return fract(p.x * p.y);
+  }
+
+  vec3 bandColor(float x01) {
+    float b = clamp(floor(x01 * float(MAX_BANDS)), 0.0, float(MAX_BANDS - 1));
+    int i = int(b) * 3;
+    return vec3(uPalette[i], uPalette[i+1], uPalette[i+2]);
+  }
+
+  float bandEnergy(float x01) {
+    float b = clamp(floor(x01 * float(MAX_BANDS)), 0.0, float(MAX_BANDS - 1));
+    return uBandEnergy[int(b)];
+  }
+
+  // Preserve hue/chroma: adjust brightness instead of desaturating to gray
+  vec3 darkenPreserveChroma(vec3 c, float k) {
+    // k: 0..1, higher = darker
+    float l = dot(c, vec3(0.299, 0.587, 0.114));
+    // Pull toward a darker version of itself (not toward gray)
+    return mix(c, c * (0.25 + 0.75 * l), k);
+  }
+
+  vec3 materialize(vec3 base, float y01, float intensity) {
+    // 0..1: water -> smoke -> fire
+    if (y01 < 0.33) {
+      float t = y01 / 0.33;
+      // watery glow (cooler, but keep color)
+      vec3 water = base * vec3(0.35, 0.85, 1.35);
+      return water * mix(0.18, 0.55, t);
+    } else if (y01 < 0.66) {
+      float t = (y01 - 0.33) / 0.33;
+      // smoke: keep chroma, reduce brightness a touch, add airy lift
+      vec3 smoke = darkenPreserveChroma(base, 0.55);
+      // airy lift with intensity so “smoke” blooms bright where dense
+      smoke *= mix(0.40, 1.05, t);
+      smoke *= (0.70 + 0.60 * smoothstep(0.08, 0.35, intensity));
+      return smoke;
+    } else {
+      float t = (y01 - 0.66) / 0.34;
+      // fire: warmer + emissive
+      vec3 fire = base * vec3(1.55, 0.95, 0.35);
+      return fire * mix(0.70, 2.40, t);
+    }
+  }
+
+  void main() {
+    vec2 uv = vUv;
+
+    // Clean dark background (less colorful bias than before)
+    vec3 col = vec3(0.006, 0.010, 0.016);
+    col += 0.010 * sin(vec3(uv.x * 5.0, uv.y * 6.0, (uv.x + uv.y) * 3.0) + uTime * 0.10);
+
+    vec4 d = texture2D(uTex, uv);
+    float intensity = d.r;
+    float styleY = d.g;
+    float colorX = d.b;
+    float seed = d.a;
+
+    if (intensity > 0.001) {
+      vec3 base = bandColor(colorX);
+      vec3 ink = materialize(base, styleY, intensity);
+
+      // Main body (airy smoke)
+      float body = smoothstep(0.02, 0.32, intensity);
+
+      // Bright “core glow” for higher intensity (gets you toward reference)
+      float coreGlow = smoothstep(0.22, 0.75, intensity);
+      coreGlow = pow(coreGlow, 1.4);
+
+      // Powder: chromatic grains at low intensity, stronger than before
+      float powderZone = 1.0 - smoothstep(0.04, 0.16, intensity);
+      float grain = hash(uv * uRes * 0.75 + seed * 91.0);
+      float powder = powderZone * smoothstep(0.40, 0.92, grain);
+
+      // Composition:
+      //  - body: soft volumetric color
+      //  - coreGlow: additive-ish bloom
+      //  - powder: chromatic pigment speckle that reads “settled”
+      col += ink * (0.65 * body);
+      col += ink * (0.45 * intensity);     // keeps midtones present
+      col += ink * powder * 0.55;          // stronger powder, less muddy
+      col += ink * coreGlow * 0.55;        // emissive pop for saturated smoke
+
+      // Audio: ink glows with its band's energy, cores flash on the beat
+      col += ink * bandEnergy(colorX) * 0.35 * body;
+      col += ink * uBeat * 0.25 * coreGlow;
+
+      // Optional micro-shimmer kept subtle
+      float shimmer = 0.5 + 0.5 * sin((uv.x * 88.0 + uv.y * 63.0) + uTime * 0.55 + seed * 6.0);
+      col += ink * shimmer * 0.03 * body;
+    }
+
+    // Pointer sparks: barely visible
+    vec2 aspect = vec2(uRes.x / min(uRes.x, uRes.y), uRes.y / min(uRes.x, uRes.y));
+    for (int k = 0; k < MAX_POINTERS; k++) {
+      if (k >= uPointerCount) break;
+
+      vec3 ptr = uPointers[k];
+      float dp = length((uv - ptr.xy) * aspect);
+      float spark = 1.0 - smoothstep(0.0, 0.012, dp);
+
+      vec3 pBase = bandColor(ptr.x);
+      vec3 pInk = materialize(pBase, ptr.y, 0.5);
+      col += pInk * spark * mix(0.02, 0.06, ptr.z);
+    }
+
+    // Very subtle countdown lift
+    col *= 1.0 + uCountdown * 0.12;
+
+    // Ritual countdown: a thin line fills along the top edge, and the frame
+    // closes in over the last quarter of the ritual
+    float timeLine = step(0.994, uv.y) * step(uv.x, uCountdown);
+    col += vec3(0.0, 1.0, 0.4) * timeLine * 0.6;
+    float edge = min(min(uv.x, 1.0 - uv.x), min(uv.y, 1.0 - uv.y));
+    float closing = smoothstep(0.75, 1.0, uCountdown);
+    col *= 1.0 - closing * (1.0 - smoothstep(0.0, 0.2, edge)) * 0.85;
+
+    // Tonemap + gamma
+    col = col / (1.0 + col);
+    col = pow(col, vec3(0.4545));
+
+    gl_FragColor = vec4(col, 1.0);
+  }
+`;
+
+export type PointerUniforms = ReturnType<typeof makePointerUniforms>;
+
+export function makePointerUniforms() {
+  return {
+    positions: Array.from({ length: MAX_POINTERS }, () => new THREE.Vector3()),
+    velocities: Array.from({ length: MAX_POINTERS }, () => new THREE.Vector2()),
+  };
+}
+
+/**
+ * Loads `active` (at most MAX_POINTERS) into the pointer uniforms, with each
+ * pointer's velocity since the last call; `prevPointers` carries positions
+ * between calls.
+ */
+export function writePointerUniforms(
+  active: GesturePointer[],
+  prevPointers: Map<number, THREE.Vector2>,
+  uniforms: PointerUniforms
+) {
+  active.forEach((p, k) => {
+    const prev = prevPointers.get(p.id);
+    const vx = prev ? p.x - prev.x : 0;
+    const vy = prev ? p.y - prev.y : 0;
+    if (prev) prev.set(p.x, p.y);
+    else prevPointers.set(p.id, new THREE.Vector2(p.x, p.y));
+
+    uniforms.positions[k].set(p.x, p.y, p.down ? 1 : 0);
+    uniforms.velocities[k].set(vx, vy);
+  });
+
+  // Forget lifted touches so a reused id doesn't streak from its old position
+  for (const id of prevPointers.keys()) {
+    if (!active.some(p => p.id === id)) prevPointers.delete(id);
+  }
+}
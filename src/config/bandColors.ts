@@ -1,11 +1,13 @@
 // src/config/bandColors.ts
+import { EQ_LAYOUT } from './eqLayout';
 
 export interface BandColor {
   hex: string;
   rgb: [number, number, number];
 }
 
-export const BAND_COLORS: BandColor[] = [
+// Hand-tuned 36-step palette; resampled below to however many bands the EQ layout has.
+const BAND_PALETTE: BandColor[] = [
   // VERDANT PULSE (0-5)
   { hex: '#a1cd12', rgb: [161, 205, 18] },
   { hex: '#87c212', rgb: [136, 194, 18] },
@@ -46,4 +48,22 @@ export const BAND_COLORS: BandColor[] = [
   { hex: '#c5d212', rgb: [198, 210, 18] },
   { hex: '#c1d512', rgb: [192, 213, 18] },
   { hex: '#bad812', rgb: [186, 216, 18] },
-];
\ No newline at end of file
+];
+
+function toHex(rgb: [number, number, number]) {
+  return '#' + rgb.map(v => v.toString(16).padStart(2, '0')).join('');
+}
+
+function resamplePalette(palette: BandColor[], bands: number): BandColor[] {
+  if (bands === palette.length) return palette;
+  return Array.from({ length: bands }, (_, i) => {
+    const pos = (i / Math.max(1, bands - 1)) * (palette.length - 1);
+    const lo = palette[Math.floor(pos)].rgb;
+    const hi = palette[Math.ceil(pos)].rgb;
+    const t = pos - Math.floor(pos);
+    const rgb = lo.map((v, k) => Math.round(v + (hi[k] - v) * t)) as [number, number, number];
+    return { hex: toHex(rgb), rgb };
+  });
+}
+
+export const BAND_COLORS: BandColor[] = resamplePalette(BAND_PALETTE, EQ_LAYOUT.bands);
@@ -0,0 +1,127 @@
+// src/config/eqLayout.ts
+
+export type FrequencySpacing =
+  | { kind: 'third-octave'; startHz: number }
+  | { kind: 'bark'; minHz: number; maxHz: number }
+  | { kind: 'mel'; minHz: number; maxHz: number }
+  | { kind: 'custom'; frequencies: number[] };
+
+/**
+ * Maps a normalized row (0 = bottom, 1 = top) to a normalized gain (0 = min dB, 1 = max dB).
+ * 'cubic' flattens the middle so small moves near 0 dB are finer.
+ */
+export type RowCurve = 'linear' | 'cubic' | ((row01: number) => number);
+
+export interface EQLayout {
+  bands: number;
+  rows: number;
+  spacing: FrequencySpacing;
+  /** One Q for every band, or one per band. */
+  q: number | number[];
+  gainRange: { minDB: number; maxDB: number };
+  rowCurve: RowCurve;
+}
+
+// Zwicker & Terhardt approximation and its numeric inverse
+const hzToBark = (hz: number) => 13 * Math.atan(0.00076 * hz) + 3.5 * Math.atan(Math.pow(hz / 7500, 2));
+
+function barkToHz(bark: number) {
+  let lo = 0;
+  let hi = 24000;
+  for (let i = 0; i < 40; i++) {
+    const mid = (lo + hi) / 2;
+    if (hzToBark(mid) < bark) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+function evenlyOnScale(
+  bands: number,
+  minHz: number,
+  maxHz: number,
+  toScale: (hz: number) => number,
+  fromScale: (v: number) => number
+) {
+  const lo = toScale(minHz);
+  const hi = toScale(maxHz);
+  return Array.from({ length: bands }, (_, i) => fromScale(lo + ((hi - lo) * i) / Math.max(1, bands - 1)));
+}
+
+export function bandFrequencies(layout: EQLayout): number[] {
+  const { spacing, bands } = layout;
+  switch (spacing.kind) {
+    case 'third-octave':
+      return Array.from({ length: bands }, (_, i) => spacing.startHz * Math.pow(2, i / 3));
+    case 'bark':
+      return evenlyOnScale(bands, spacing.minHz, spacing.maxHz, hzToBark, barkToHz);
+    case 'mel':
+      return evenlyOnScale(bands, spacing.minHz, spacing.maxHz, hzToMel, melToHz);
+    case 'custom':
+      if (spacing.frequencies.length !== bands) {
+        throw new Error(`EQ layout has ${bands} bands but ${spacing.frequencies.length} frequencies`);
+      }
+      return [...spacing.frequencies];
+  }
+}
+
+/** "63 Hz", "1.2 kHz" */
+export function formatFrequency(hz: number): string {
+  return hz >= 1000 ? `${(hz / 1000).toFixed(1)} kHz` : `${Math.round(hz)} Hz`;
+}
+
+export function bandQ(layout: EQLayout, bandIndex: number): number {
+  return Array.isArray(layout.q) ? layout.q[bandIndex] ?? 1.4 : layout.q;
+}
+
+export function rowToGainDB(layout: EQLayout, rowIndex: number): number {
+  const row01 = Math.min(1, Math.max(0, rowIndex / (layout.rows - 1)));
+  let gain01: number;
+
+  if (layout.rowCurve === 'linear') {
+    gain01 = row01;
+  } else if (layout.rowCurve === 'cubic') {
+    const u = row01 * 2 - 1;
+    gain01 = (u * u * u + 1) / 2;
+  } else {
+    gain01 = layout.rowCurve(row01);
+  }
+
+  const { minDB, maxDB } = layout.gainRange;
+  return minDB + gain01 * (maxDB - minDB);
+}
+
+export const EQ_PRESETS = {
+  // The original layout: 1/3-octave steps from 20 Hz. The top six bands land above 20 kHz.
+  classic: {
+    bands: 36,
+    rows: 36,
+    spacing: { kind: 'third-octave', startHz: 20 },
+    q: 1.4,
+    gainRange: { minDB: -18, maxDB: 18 },
+    rowCurve: 'linear',
+  },
+  // Critical-band spacing across the audible range; every band does something.
+  bark: {
+    bands: 36,
+    rows: 36,
+    spacing: { kind: 'bark', minHz: 20, maxHz: 18000 },
+    q: 1.4,
+    gainRange: { minDB: -18, maxDB: 18 },
+    rowCurve: 'linear',
+  },
+  mel: {
+    bands: 36,
+    rows: 36,
+    spacing: { kind: 'mel', minHz: 20, maxHz: 18000 },
+    q: 1.4,
+    gainRange: { minDB: -18, maxDB: 18 },
+    rowCurve: 'linear',
+  },
+} satisfies Record<string, EQLayout>;
+
+// The layout the whole app plays on
+export const EQ_LAYOUT: EQLayout = EQ_PRESETS.bark;
@@ -0,0 +1,177 @@
+// src/hooks/useCursorControls.ts
+import { useEffect, useRef, useState } from 'react';
+
+export interface CursorState {
+  /** 0..1, left to right. */
+  x01: number;
+  /** 0..1, bottom to top (same as pointer coordinates on the surface). */
+  y01: number;
+  down: boolean;
+}
+
+export type CursorSource = 'keyboard' | 'gamepad';
+
+interface CursorControlsOptions {
+  enabled: boolean;
+  bands: number;
+  rows: number;
+  /** Called whenever the cursor moves, presses or releases. */
+  onCursor: (cursor: CursorState) => void;
+}
+
+const FAST_STEP = 4; // cells per arrow press with Shift held
+const STICK_DEADZONE = 0.15;
+const STICK_SPEED = 0.6; // surface widths per second at full tilt
+const TRIGGER_THRESHOLD = 0.5;
+
+// Standard gamepad mapping
+const BUTTON_A = 0;
+const LEFT_TRIGGER = 6;
+const RIGHT_TRIGGER = 7;
+const DPAD_UP = 12;
+const DPAD_DOWN = 13;
+const DPAD_LEFT = 14;
+const DPAD_RIGHT = 15;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Controls that already give arrows and Space a meaning (typing, sliding, clicking)
+const INTERACTIVE_SELECTOR = [
+  'input',
+  'select',
+  'textarea',
+  'button',
+  'a[href]',
+  'summary',
+  '[role="button"]',
+  '[role="link"]',
+  '[role="slider"]',
+  '[role="checkbox"]',
+  '[role="switch"]',
+  '[role="tab"]',
+  '[role="menuitem"]',
+  '[role="option"]',
+].join(', ');
+
+function isInteractiveTarget(target: EventTarget | null) {
+  return target instanceof HTMLElement && (target.isContentEditable || !!target.closest(INTERACTIVE_SELECTOR));
+}
+
+/**
+ * A grid cursor for people who can't (or don't want to) point: arrow keys
+ * step a cell at a time and Space presses; a gamepad's left stick glides,
+ * the d-pad steps and A or either trigger presses. Both move the same cursor.
+ */
+export function useCursorControls({ enabled, bands, rows, onCursor }: CursorControlsOptions) {
+  const [cursor, setCursor] = useState<CursorState | null>(null);
+  const [source, setSource] = useState<CursorSource | null>(null);
+  const cursorRef = useRef<CursorState>({ x01: 0.5, y01: 0.5, down: false });
+
+  const onCursorRef = useRef(onCursor);
+  useEffect(() => {
+    onCursorRef.current = onCursor;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const update = (next: CursorState, from: CursorSource) => {
+      const prev = cursorRef.current;
+      if (prev.x01 === next.x01 && prev.y01 === next.y01 && prev.down === next.down) return;
+      cursorRef.current = next;
+      setCursor(next);
+      setSource(from);
+      onCursorRef.current(next);
+    };
+
+    // Centre of the cell `dx`/`dy` steps away from the cursor
+    const step = (dx: number, dy: number): Pick<CursorState, 'x01' | 'y01'> => {
+      const { x01, y01 } = cursorRef.current;
+      const band = Math.min(bands - 1, Math.max(0, Math.floor(x01 * bands) + dx));
+      const row = Math.min(rows - 1, Math.max(0, Math.floor(y01 * rows) + dy));
+      return { x01: (band + 0.5) / bands, y01: (row + 0.5) / rows };
+    };
+
+    // -- Keyboard --
+    const arrows: Record<string, [number, number]> = {
+      ArrowLeft: [-1, 0],
+      ArrowRight: [1, 0],
+      ArrowUp: [0, 1],
+      ArrowDown: [0, -1],
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isInteractiveTarget(e.target)) return;
+      const arrow = arrows[e.key];
+      if (arrow) {
+        e.preventDefault();
+        const n = e.shiftKey ? FAST_STEP : 1;
+        update({ ...cursorRef.current, ...step(arrow[0] * n, arrow[1] * n) }, 'keyboard');
+      } else if (e.key === ' ') {
+        e.preventDefault();
+        if (!e.repeat) update({ ...cursorRef.current, down: true }, 'keyboard');
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      // Always let go, even if focus moved onto a control while Space was held
+      if (e.key !== ' ' || !cursorRef.current.down) return;
+      update({ ...cursorRef.current, down: false }, 'keyboard');
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+
+    // -- Gamepad (polled; the API has no input events) --
+    let frame = 0;
+    let lastTime = performance.now();
+    let prevButtons: boolean[] = [];
+    let prevPadDown = false;
+
+    const poll = (now: number) => {
+      frame = requestAnimationFrame(poll);
+      const dt = Math.min(0.1, (now - lastTime) / 1000);
+      lastTime = now;
+
+      const pad = navigator.getGamepads?.().find(p => p?.connected);
+      if (!pad) return;
+
+      const pressed = pad.buttons.map(b => b.pressed);
+      const edge = (i: number) => !!pressed[i] && !prevButtons[i];
+      prevButtons = pressed;
+
+      let next = { ...cursorRef.current };
+      const dx = (edge(DPAD_RIGHT) ? 1 : 0) - (edge(DPAD_LEFT) ? 1 : 0);
+      const dy = (edge(DPAD_UP) ? 1 : 0) - (edge(DPAD_DOWN) ? 1 : 0);
+      if (dx || dy) next = { ...next, ...step(dx, dy) };
+
+      const [ax = 0, ay = 0] = pad.axes;
+      if (Math.hypot(ax, ay) > STICK_DEADZONE) {
+        next.x01 = clamp01(next.x01 + ax * STICK_SPEED * dt);
+        next.y01 = clamp01(next.y01 - ay * STICK_SPEED * dt); // stick up is negative
+      }
+
+      // Only press/release on changes, so a connected pad doesn't cancel a held Space
+      const trigger = (i: number) => (pad.buttons[i]?.value ?? 0) > TRIGGER_THRESHOLD;
+      const padDown = !!pressed[BUTTON_A] || trigger(LEFT_TRIGGER) || trigger(RIGHT_TRIGGER);
+      if (padDown !== prevPadDown) next.down = padDown;
+      prevPadDown = padDown;
+
+      update(next, 'gamepad');
+    };
+    frame = requestAnimationFrame(poll);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      cancelAnimationFrame(frame);
+      // Never leave a press hanging when play stops
+      if (cursorRef.current.down) {
+        cursorRef.current = { ...cursorRef.current, down: false };
+        onCursorRef.current(cursorRef.current);
+      }
+    };
+  }, [enabled, bands, rows]);
+
+  return { cursor: enabled ? cursor : null, source };
+}
@@ -0,0 +1,137 @@
+// src/hooks/useMidiInput.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { controlKey, loadMidiMapping, parseMidiMessage, saveMidiMapping } from '../lib/midiMapping';
+import type { MidiBinding, MidiControl, MidiMessage } from '../lib/midiMapping';
+
+export type MidiStatus = 'unsupported' | 'off' | 'ready' | 'denied';
+
+interface MidiInputOptions {
+  /** A mapped control moved. Not called while learning. */
+  onBinding: (binding: MidiBinding, message: MidiMessage) => void;
+}
+
+/**
+ * Web MIDI input with a learnable mapping. Access is only requested on
+ * `enable()` (browsers prompt for it); the mapping persists in localStorage.
+ * While learning, the next control touched is `captured` until `assign()`
+ * binds it to a band (CC) or a band and row (note).
+ */
+export function useMidiInput({ onBinding }: MidiInputOptions) {
+  const [status, setStatus] = useState<MidiStatus>(() =>
+    typeof navigator.requestMIDIAccess === 'function' ? 'off' : 'unsupported'
+  );
+  const [deviceNames, setDeviceNames] = useState<string[]>([]);
+  const [bindings, setBindings] = useState<MidiBinding[]>(loadMidiMapping);
+  const [isLearning, setIsLearning] = useState(false);
+  const [captured, setCaptured] = useState<MidiControl | null>(null);
+  const accessRef = useRef<MIDIAccess | null>(null);
+
+  // Latest bindings and callback for the MIDI event handler without re-subscribing
+  const handlerRef = useRef<(message: MidiMessage) => void>(() => {});
+  useEffect(() => {
+    const byKey = new Map(bindings.map(b => [controlKey(b.control), b]));
+    handlerRef.current = message => {
+      if (isLearning) {
+        if (!message.isNoteOff) setCaptured(message.control);
+        return;
+      }
+      const binding = byKey.get(controlKey(message.control));
+      if (binding) onBinding(binding, message);
+    };
+  });
+
+  const connectInputs = useCallback((access: MIDIAccess) => {
+    const names: string[] = [];
+    access.inputs.forEach(input => {
+      input.onmidimessage = e => {
+        const message = parseMidiMessage(e.data);
+        if (message) handlerRef.current(message);
+      };
+      names.push(input.name || 'MIDI input');
+    });
+    setDeviceNames(names);
+  }, []);
+
+  const enable = useCallback(async () => {
+    if (accessRef.current || typeof navigator.requestMIDIAccess !== 'function') return;
+    try {
+      const access = await navigator.requestMIDIAccess();
+      accessRef.current = access;
+      connectInputs(access);
+      // Controllers plugged in later get picked up too
+      access.onstatechange = () => connectInputs(access);
+      setStatus('ready');
+    } catch (e) {
+      console.warn('MIDI access denied:', e);
+      setStatus('denied');
+    }
+  }, [connectInputs]);
+
+  useEffect(() => {
+    return () => {
+      const access = accessRef.current;
+      if (!access) return;
+      access.onstatechange = null;
+      access.inputs.forEach(input => {
+        input.onmidimessage = null;
+      });
+    };
+  }, []);
+
+  const updateBindings = useCallback((update: (prev: MidiBinding[]) => MidiBinding[]) => {
+    setBindings(prev => {
+      const next = update(prev);
+      saveMidiMapping(next);
+      return next;
+    });
+  }, []);
+
+  const startLearning = useCallback(() => {
+    setCaptured(null);
+    setIsLearning(true);
+  }, []);
+
+  const stopLearning = useCallback(() => {
+    setCaptured(null);
+    setIsLearning(false);
+  }, []);
+
+  /** Binds the captured control; a control only ever drives one target. */
+  const assign = useCallback(
+    (band: number, row: number) => {
+      if (!captured) return;
+      const binding: MidiBinding =
+        captured.kind === 'cc' ? { control: captured, band } : { control: captured, band, row };
+      const key = controlKey(captured);
+      updateBindings(prev => [...prev.filter(b => controlKey(b.control) !== key), binding]);
+      setCaptured(null);
+    },
+    [captured, updateBindings]
+  );
+
+  const unbind = useCallback(
+    (control: MidiControl) => {
+      const key = controlKey(control);
+      updateBindings(prev => prev.filter(b => controlKey(b.control) !== key));
+    },
+    [updateBindings]
+  );
+
+  const clearBindings = useCallback(() => updateBindings(() => []), [updateBindings]);
+
+  return {
+    status,
+    deviceNames,
+    bindings,
+    enable,
+    isLearning,
+    captured,
+    startLearning,
+    stopLearning,
+    assign,
+    unbind,
+    clearBindings,
+  };
+}
+
+export type MidiInput = ReturnType<typeof useMidiInput>;
@@ -0,0 +1,17 @@
+// src/hooks/usePrefersReducedMotion.ts
+import { useSyncExternalStore } from 'react';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+function subscribe(onChange: () => void) {
+  const media = window.matchMedia(QUERY);
+  media.addEventListener('change', onChange);
+  return () => media.removeEventListener('change', onChange);
+}
+
+const getSnapshot = () => window.matchMedia(QUERY).matches;
+
+/** True while the OS/browser asks for reduced motion; follows the setting live. */
+export function usePrefersReducedMotion() {
+  return useSyncExternalStore(subscribe, getSnapshot, () => false);
+}
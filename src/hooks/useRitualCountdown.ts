@@ -1,40 +1,68 @@
 // src/hooks/useRitualCountdown.ts
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useState } from 'react';
 import { useApp } from '../state/AppContext';
 
-const RITUAL_DURATION = 36; // seconds
+export const DEFAULT_RITUAL_SECONDS = 36;
+/** Shortest custom ritual. */
+export const MIN_RITUAL_SECONDS = 5;
 
-export function useRitualCountdown() {
+/** How long a ritual lasts: a fixed number of seconds, or whatever is being played. */
+export type RitualDuration = { kind: 'seconds'; seconds: number } | { kind: 'track' };
+
+/** Seconds the timer should run for a track (or region) of `trackSeconds`. */
+export function resolveRitualDuration(duration: RitualDuration, trackSeconds: number): number {
+  if (duration.kind === 'track') return trackSeconds;
+  return trackSeconds > 0 ? Math.min(duration.seconds, trackSeconds) : duration.seconds;
+}
+
+interface CountdownOptions {
+  /** Seconds elapsed since start; defaults to the wall clock. Pass the audio clock so pauses hold the timer. */
+  getElapsed?: () => number;
+  /** Called once when the timer reaches zero. */
+  onComplete?: () => void;
+}
+
+export function useRitualCountdown(totalSeconds = DEFAULT_RITUAL_SECONDS, options: CountdownOptions = {}) {
   const { ritual, setCountdown, setRitualPhase } = useApp();
   const intervalRef = useRef<number | null>(null);
   const startTimeRef = useRef<number>(0);
+  const [progress, setProgress] = useState(0);
+
+  // Latest callbacks without restarting a running timer
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const stopCountdown = useCallback(() => {
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = null;
+    }
+  }, []);
 
   const startCountdown = useCallback(() => {
+    stopCountdown();
     setRitualPhase('ritual');
-    setCountdown(RITUAL_DURATION);
+    setCountdown(totalSeconds);
+    setProgress(0);
     startTimeRef.current = Date.now();
 
     intervalRef.current = window.setInterval(() => {
-      const elapsed = Math.floor((Date.now() - startTimeRef.current) / 1000);
-      const remaining = Math.max(0, RITUAL_DURATION - elapsed);
-      
+      const { getElapsed, onComplete } = optionsRef.current;
+      const elapsed = getElapsed ? getElapsed() : (Date.now() - startTimeRef.current) / 1000;
+      const remaining = Math.max(0, totalSeconds - Math.floor(elapsed));
+
       setCountdown(remaining);
+      setProgress(Math.min(1, elapsed / totalSeconds));
 
-      if (remaining === 0) {
-        if (intervalRef.current) {
-          clearInterval(intervalRef.current);
-        }
+      if (elapsed >= totalSeconds) {
+        stopCountdown();
         setRitualPhase('capture');
+        onComplete?.();
       }
     }, 100); // Update frequently for smooth display
-  }, [setCountdown, setRitualPhase]);
-
-  const stopCountdown = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
-  }, []);
+  }, [totalSeconds, setCountdown, setRitualPhase, stopCountdown]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -47,9 +75,11 @@ export function useRitualCountdown() {
 
   return {
     countdown: ritual.countdown,
+    /** 0 at the start of the ritual, 1 when time is up. */
+    progress,
     phase: ritual.phase,
     startCountdown,
     stopCountdown,
     isComplete: ritual.phase === 'complete',
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,74 @@
+// src/lib/cloudStorage.ts
+import { Upload } from 'tus-js-client';
+import { supabase } from './supabaseClient';
+
+/** Private bucket holding every user's recordings and Sound Prints under `<userId>/...`. */
+export const RITUALS_BUCKET = 'rituals';
+
+// Supabase's resumable endpoint only accepts 6 MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const SIGNED_URL_SECONDS = 60 * 60;
+
+const resumableEndpoint = `${import.meta.env.VITE_SUPABASE_URL as string}/storage/v1/upload/resumable`;
+
+/**
+ * Uploads `blob` to `path` in the rituals bucket over TUS, so a dropped mobile
+ * connection resumes where it stopped instead of starting over.
+ */
+export async function uploadResumable(
+  path: string,
+  blob: Blob,
+  onProgress?: (progress01: number) => void
+): Promise<string> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error('Cannot upload: not signed in');
+
+  await new Promise<void>((resolve, reject) => {
+    const upload = new Upload(blob, {
+      endpoint: resumableEndpoint,
+      retryDelays: [0, 1000, 3000, 5000, 10000],
+      headers: {
+        authorization: `Bearer ${token}`,
+        'x-upsert': 'true',
+      },
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      metadata: {
+        bucketName: RITUALS_BUCKET,
+        objectName: path,
+        contentType: blob.type || 'application/octet-stream',
+        cacheControl: '3600',
+      },
+      chunkSize: CHUNK_SIZE,
+      onProgress: (sent, total) => onProgress?.(total > 0 ? sent / total : 0),
+      onSuccess: () => resolve(),
+      onError: reject,
+    });
+
+    // Pick up an interrupted upload of the same file if there is one
+    upload.findPreviousUploads().then(previous => {
+      if (previous.length) upload.resumeFromPreviousUpload(previous[0]);
+      upload.start();
+    }, reject);
+  });
+
+  return path;
+}
+
+/** Best-effort delete, for cleaning up after a save that didn't go through. */
+export async function removeUploads(paths: string[]): Promise<void> {
+  if (!paths.length) return;
+  const { error } = await supabase.storage.from(RITUALS_BUCKET).remove(paths);
+  if (error) console.error('Error removing uploaded objects:', error);
+}
+
+/** Short-lived URL for a private object, or null if it can't be signed. */
+export async function signedUrlFor(path: string): Promise<string | null> {
+  const { data, error } = await supabase.storage.from(RITUALS_BUCKET).createSignedUrl(path, SIGNED_URL_SECONDS);
+  if (error) {
+    console.error('Error signing storage URL:', error);
+    return null;
+  }
+  return data.signedUrl;
+}
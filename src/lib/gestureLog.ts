@@ -0,0 +1,193 @@
+// src/lib/gestureLog.ts
+import type { EQAutomationEvent } from '../audio/AudioEngine';
+import type { AudioRegion } from '../audio/region';
+
+// Bump when the shape of GestureEvent changes so old performances can be migrated on load.
+// v2: events carry the pointer slot they came from (multi-touch).
+export const GESTURE_LOG_VERSION = 2;
+
+export type GesturePhase = 'down' | 'move' | 'up';
+
+export interface GestureEvent {
+  /** Seconds since playback started (audio clock), so 0 is region.start when there is a region. */
+  t: number;
+  /** Small, reusable slot index for the finger/mouse that produced the event. */
+  pointer: number;
+  x01: number;
+  y01: number;
+  band: number;
+  row: number;
+  phase: GesturePhase;
+}
+
+export interface GestureLog {
+  version: typeof GESTURE_LOG_VERSION;
+  bands: number;
+  rows: number;
+  duration: number;
+  /**
+   * Slice of the track that was performed. Event times are relative to the
+   * slice (0 = region.start), not to the track: play it with sliceAudioBuffer
+   * and use the times as they are. Absent = whole track.
+   */
+  region?: AudioRegion;
+  events: GestureEvent[];
+}
+
+export interface GesturePointer {
+  id: number;
+  x: number;
+  y: number;
+  down: boolean;
+}
+
+const round = (v: number, digits: number) => {
+  const f = Math.pow(10, digits);
+  return Math.round(v * f) / f;
+};
+
+export function createGestureEvent(
+  t: number,
+  pointer: number,
+  x01: number,
+  y01: number,
+  band: number,
+  row: number,
+  phase: GesturePhase
+): GestureEvent {
+  // Rounded so a long take stays small enough for sessionStorage and a jsonb column.
+  return { t: round(t, 3), pointer, x01: round(x01, 4), y01: round(y01, 4), band, row, phase };
+}
+
+export function createGestureLog(
+  events: GestureEvent[],
+  bands: number,
+  rows: number,
+  duration: number,
+  region?: AudioRegion | null
+): GestureLog {
+  const log: GestureLog = { version: GESTURE_LOG_VERSION, bands, rows, duration, events };
+  if (region) log.region = region;
+  return log;
+}
+
+/**
+ * Validates a stored log and upgrades older versions to the current shape.
+ * Returns null for anything that isn't a gesture log.
+ */
+export function parseGestureLog(value: unknown): GestureLog | null {
+  const v = value as { version?: number; events?: unknown } | null;
+  if (!v || typeof v !== 'object' || !Array.isArray(v.events)) return null;
+
+  if (v.version === GESTURE_LOG_VERSION) return v as GestureLog;
+
+  if (v.version === 1) {
+    // v1 was single-pointer
+    const v1 = v as Omit<GestureLog, 'version' | 'events'> & { events: Omit<GestureEvent, 'pointer'>[] };
+    return {
+      ...v1,
+      version: GESTURE_LOG_VERSION,
+      events: v1.events.map(e => ({ ...e, pointer: 0 })),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Reduces a gesture log to the band/row changes that actually moved the EQ,
+ * i.e. what the live take sent to setBandGain.
+ */
+export function toEQAutomation(log: GestureLog): EQAutomationEvent[] {
+  const out: EQAutomationEvent[] = [];
+  const down = new Set<number>();
+
+  for (const e of log.events) {
+    if (e.phase === 'down') down.add(e.pointer);
+    if (e.phase === 'up') {
+      down.delete(e.pointer);
+      continue;
+    }
+    if (!down.has(e.pointer)) continue;
+    out.push({ time: e.t, band: e.band, row: e.row });
+  }
+
+  return out;
+}
+
+/** Index of the first event strictly after `t` (events are recorded in time order). */
+export function eventIndexAfter(log: GestureLog, t: number): number {
+  let lo = 0;
+  let hi = log.events.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (log.events[mid].t <= t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/** Row per band (-1 = untouched) as it stood at time `t` of the take. */
+export function eqStateAt(log: GestureLog, t: number): number[] {
+  const rows = new Array(log.bands).fill(-1);
+  const end = eventIndexAfter(log, t);
+  const down = new Set<number>();
+
+  for (let i = 0; i < end; i++) {
+    const e = log.events[i];
+    if (e.phase === 'down') down.add(e.pointer);
+    if (e.phase === 'up') {
+      down.delete(e.pointer);
+      continue;
+    }
+    if (down.has(e.pointer)) rows[e.band] = e.row;
+  }
+
+  return rows;
+}
+
+/**
+ * Applies one event to a pointer map: lifted pointers are dropped, everything
+ * else is moved (and pressed on 'down').
+ */
+export function applyGestureToPointers(pointers: Map<number, GesturePointer>, e: GestureEvent) {
+  if (e.phase === 'up') {
+    pointers.delete(e.pointer);
+    return;
+  }
+  const prev = pointers.get(e.pointer);
+  pointers.set(e.pointer, {
+    id: e.pointer,
+    x: e.x01,
+    y: e.y01,
+    down: e.phase === 'down' || (prev?.down ?? false),
+  });
+}
+
+/** Every pointer still on the surface at time `t` of the take. */
+export function pointersAt(log: GestureLog, t: number): Map<number, GesturePointer> {
+  const pointers = new Map<number, GesturePointer>();
+  const end = eventIndexAfter(log, t);
+  for (let i = 0; i < end; i++) applyGestureToPointers(pointers, log.events[i]);
+  return pointers;
+}
+
+/**
+ * Cuts a recording back to time `t` (seeking during a take): later events are
+ * dropped and any pointer still pressed at `t` is lifted there, so the log
+ * stays in time order and nothing is left held down.
+ */
+export function truncateGestureEvents(events: GestureEvent[], t: number): GestureEvent[] {
+  const kept = events.filter(e => e.t <= t);
+  const pointers = new Map<number, GesturePointer>();
+  for (const e of kept) applyGestureToPointers(pointers, e);
+
+  const lifts: GestureEvent[] = [];
+  for (let i = kept.length - 1; i >= 0; i--) {
+    const e = kept[i];
+    if (!pointers.get(e.pointer)?.down) continue;
+    pointers.delete(e.pointer);
+    lifts.push(createGestureEvent(t, e.pointer, e.x01, e.y01, e.band, e.row, 'up'));
+  }
+  return kept.concat(lifts);
+}
@@ -0,0 +1,111 @@
+// src/lib/localLibrary.ts
+import type { GestureLog } from './gestureLog';
+
+/** -------- IndexedDB helpers -------- */
+const DB_NAME = 'G4BU5_DB';
+const STORE_NAME = 'blobs';
+const LIBRARY_STORE = 'library';
+// v2: adds the library store
+const DB_VERSION = 2;
+
+/** One finished ritual kept on this device. */
+export interface LibraryEntry {
+  id: string;
+  createdAt: number;
+  trackName: string;
+  /** Seconds performed. */
+  duration: number;
+  recording: Blob;
+  /** Sound Print PNG. */
+  soundPrint: Blob | null;
+  finalEQState: number[];
+  gestureLog: GestureLog | null;
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) db.createObjectStore(STORE_NAME);
+      if (!db.objectStoreNames.contains(LIBRARY_STORE)) {
+        db.createObjectStore(LIBRARY_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function saveBlob(key: string, blob: Blob): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).put(blob, key);
+  await txDone(tx);
+  db.close();
+}
+
+export async function loadBlob(key: string): Promise<Blob | null> {
+  const db = await openDB();
+  try {
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const req = tx.objectStore(STORE_NAME).get(key);
+      req.onsuccess = () => resolve((req.result as Blob) ?? null);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function deleteBlob(key: string): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).delete(key);
+  await txDone(tx);
+  db.close();
+}
+
+/** -------- Library -------- */
+
+export async function addLibraryEntry(entry: Omit<LibraryEntry, 'id' | 'createdAt'>): Promise<LibraryEntry> {
+  const full: LibraryEntry = { ...entry, id: crypto.randomUUID(), createdAt: Date.now() };
+  const db = await openDB();
+  const tx = db.transaction(LIBRARY_STORE, 'readwrite');
+  tx.objectStore(LIBRARY_STORE).put(full);
+  await txDone(tx);
+  db.close();
+  return full;
+}
+
+/** Every saved ritual, newest first. */
+export async function listLibraryEntries(): Promise<LibraryEntry[]> {
+  const db = await openDB();
+  try {
+    const entries = await new Promise<LibraryEntry[]>((resolve, reject) => {
+      const tx = db.transaction(LIBRARY_STORE, 'readonly');
+      const req = tx.objectStore(LIBRARY_STORE).index('createdAt').getAll();
+      req.onsuccess = () => resolve(req.result as LibraryEntry[]);
+      req.onerror = () => reject(req.error);
+    });
+    return entries.reverse();
+  } finally {
+    db.close();
+  }
+}
+
+export async function deleteLibraryEntry(id: string): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction(LIBRARY_STORE, 'readwrite');
+  tx.objectStore(LIBRARY_STORE).delete(id);
+  await txDone(tx);
+  db.close();
+}
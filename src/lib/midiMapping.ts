@@ -0,0 +1,75 @@
+// src/lib/midiMapping.ts
+
+/** A physical control: a knob/fader (CC) or a pad/key (note), on one channel (1-16). */
+export type MidiControl =
+  | { kind: 'cc'; channel: number; controller: number }
+  | { kind: 'note'; channel: number; note: number };
+
+/**
+ * What a control drives. CCs sweep a band through every row; notes (grid pads)
+ * set one band to a fixed row while held.
+ */
+export type MidiBinding =
+  | { control: Extract<MidiControl, { kind: 'cc' }>; band: number }
+  | { control: Extract<MidiControl, { kind: 'note' }>; band: number; row: number };
+
+export interface MidiMessage {
+  control: MidiControl;
+  /** 0..1; note-offs (and note-ons with velocity 0) are 0. */
+  value01: number;
+  isNoteOff: boolean;
+}
+
+const STORAGE_KEY = 'g4m3_midi_mapping_v1';
+
+export function controlKey(control: MidiControl): string {
+  return control.kind === 'cc'
+    ? `cc:${control.channel}:${control.controller}`
+    : `note:${control.channel}:${control.note}`;
+}
+
+export function describeControl(control: MidiControl): string {
+  return control.kind === 'cc'
+    ? `CC ${control.controller} · CH ${control.channel}`
+    : `NOTE ${control.note} · CH ${control.channel}`;
+}
+
+/** Decodes CC and note messages; everything else (clock, sysex, pitch bend…) is null. */
+export function parseMidiMessage(data: Uint8Array | null): MidiMessage | null {
+  if (!data || data.length < 3) return null;
+  const type = data[0] & 0xf0;
+  const channel = (data[0] & 0x0f) + 1;
+
+  if (type === 0xb0) {
+    return { control: { kind: 'cc', channel, controller: data[1] }, value01: data[2] / 127, isNoteOff: false };
+  }
+  if (type === 0x90 || type === 0x80) {
+    const isNoteOff = type === 0x80 || data[2] === 0;
+    return { control: { kind: 'note', channel, note: data[1] }, value01: isNoteOff ? 0 : data[2] / 127, isNoteOff };
+  }
+  return null;
+}
+
+export function loadMidiMapping(): MidiBinding[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (b): b is MidiBinding =>
+        !!b &&
+        typeof b.band === 'number' &&
+        (b.control?.kind === 'cc' || (b.control?.kind === 'note' && typeof b.row === 'number'))
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function saveMidiMapping(bindings: MidiBinding[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (e) {
+    console.warn('Saving MIDI mapping failed:', e);
+  }
+}
@@ -0,0 +1,44 @@
+// src/lib/mp4Export.ts
+
+export const isMp4 = (blob: Blob) => blob.type.startsWith('video/mp4') || blob.type.startsWith('audio/mp4');
+
+/**
+ * Returns the recording as an H.264/AAC MP4 that iOS and social uploaders accept.
+ * Recordings that MediaRecorder already wrote as MP4 pass straight through; WebM
+ * is transcoded in the browser with WebCodecs. Throws if the browser can't do it.
+ */
+export async function toMp4(blob: Blob, onProgress?: (progress01: number) => void): Promise<Blob> {
+  if (isMp4(blob)) return blob;
+  if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined') {
+    throw new Error('WebCodecs is not available in this browser');
+  }
+
+  // Loaded on demand; only browsers that recorded WebM ever need the muxer
+  const { ALL_FORMATS, BlobSource, BufferTarget, Conversion, Input, Mp4OutputFormat, Output } = await import(
+    'mediabunny'
+  );
+
+  const input = new Input({ source: new BlobSource(blob), formats: ALL_FORMATS });
+  const target = new BufferTarget();
+  const output = new Output({ format: new Mp4OutputFormat({ fastStart: 'in-memory' }), target });
+
+  const conversion = await Conversion.init({
+    input,
+    output,
+    video: { codec: 'avc' },
+    audio: { codec: 'aac' },
+  });
+  // isValid only needs one track to survive; a take without its sound isn't a take
+  const droppedAudio = conversion.discardedTracks.some(d => d.track.type === 'audio');
+  if (!conversion.isValid || droppedAudio) {
+    const reasons = conversion.discardedTracks.map(d => `${d.track.type}: ${d.reason}`).join(', ');
+    throw new Error(`Cannot convert recording to MP4 (${reasons})`);
+  }
+
+  if (onProgress) conversion.onProgress = onProgress;
+  await conversion.execute();
+
+  if (!target.buffer) throw new Error('MP4 conversion produced no output');
+  const hasVideo = conversion.utilizedTracks.some(t => t.type === 'video');
+  return new Blob([target.buffer], { type: hasVideo ? 'video/mp4' : 'audio/mp4' });
+}
@@ -0,0 +1,52 @@
+// src/lib/ogImage.ts
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    // Storage URLs are cross-origin; without this the canvas can't be exported
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load Sound Print'));
+    img.src = src;
+  });
+}
+
+/**
+ * Renders the Open Graph / Twitter card image for a shared performance: the
+ * Sound Print cropped to 1200×630 with the track name along the bottom.
+ */
+export async function renderOgImage(soundPrintUrl: string, trackName: string): Promise<Blob> {
+  const img = await loadImage(soundPrintUrl);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = OG_IMAGE_WIDTH;
+  canvas.height = OG_IMAGE_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D not available');
+
+  // Cover-crop the print
+  const scale = Math.max(OG_IMAGE_WIDTH / img.width, OG_IMAGE_HEIGHT / img.height);
+  const w = img.width * scale;
+  const h = img.height * scale;
+  ctx.fillStyle = '#050810';
+  ctx.fillRect(0, 0, OG_IMAGE_WIDTH, OG_IMAGE_HEIGHT);
+  ctx.drawImage(img, (OG_IMAGE_WIDTH - w) / 2, (OG_IMAGE_HEIGHT - h) / 2, w, h);
+
+  const gradient = ctx.createLinearGradient(0, OG_IMAGE_HEIGHT - 160, 0, OG_IMAGE_HEIGHT);
+  gradient.addColorStop(0, 'rgba(0,0,0,0)');
+  gradient.addColorStop(1, 'rgba(0,0,0,0.85)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, OG_IMAGE_HEIGHT - 160, OG_IMAGE_WIDTH, 160);
+
+  ctx.fillStyle = '#00ff66';
+  ctx.font = '36px monospace';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText(trackName.length > 48 ? `${trackName.slice(0, 47)}…` : trackName, 48, OG_IMAGE_HEIGHT - 40, OG_IMAGE_WIDTH - 96);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG export failed'))), 'image/png');
+  });
+}
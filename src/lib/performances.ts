@@ -0,0 +1,165 @@
+// src/lib/performances.ts
+import { supabase } from './supabaseClient';
+import { parseGestureLog } from './gestureLog';
+import { fingerprintKeys, isSameTrack } from '../audio/fingerprint';
+import type { GestureLog } from './gestureLog';
+
+export interface Performance {
+  id: string;
+  userId: string;
+  trackName: string;
+  trackHash: string;
+  gestureData: GestureLog | null;
+  /** Legacy inline thumbnail; newer rows store the Sound Print in Storage instead. */
+  thumbnailDataUrl: string | null;
+  /** Paths in the rituals Storage bucket. */
+  recordingPath: string | null;
+  soundPrintPath: string | null;
+  /** 1200×630 share image made from the Sound Print when the take is published. */
+  ogImagePath: string | null;
+  isPublic: boolean;
+  likeCount: number;
+  createdAt: string;
+}
+
+export type TrackGallerySort = 'newest' | 'liked';
+
+type PerformanceRow = {
+  id: string;
+  user_id: string;
+  track_name: string;
+  track_hash: string;
+  gesture_data: unknown;
+  thumbnail_data_url: string | null;
+  recording_path: string | null;
+  sound_print_path: string | null;
+  og_image_path: string | null;
+  is_public: boolean | null;
+  like_count: number | null;
+  created_at: string;
+};
+
+const PERFORMANCE_COLUMNS =
+  'id, user_id, track_name, track_hash, gesture_data, thumbnail_data_url, recording_path, sound_print_path, og_image_path, is_public, like_count, created_at';
+
+function fromRow(row: PerformanceRow): Performance {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    trackName: row.track_name,
+    trackHash: row.track_hash,
+    gestureData: parseGestureLog(row.gesture_data),
+    thumbnailDataUrl: row.thumbnail_data_url,
+    recordingPath: row.recording_path,
+    soundPrintPath: row.sound_print_path,
+    ogImagePath: row.og_image_path,
+    isPublic: row.is_public ?? false,
+    likeCount: row.like_count ?? 0,
+    createdAt: row.created_at,
+  };
+}
+
+export async function fetchPerformance(id: string): Promise<Performance | null> {
+  const { data, error } = await supabase
+    .from('performances')
+    .select(PERFORMANCE_COLUMNS)
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    console.error('Error loading performance:', error);
+    return null;
+  }
+
+  return fromRow(data as PerformanceRow);
+}
+
+/** A user's saved performances, newest first. */
+export async function fetchUserPerformances(userId: string): Promise<Performance[]> {
+  const { data, error } = await supabase
+    .from('performances')
+    .select(PERFORMANCE_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error loading performances:', error);
+    return [];
+  }
+
+  return (data as PerformanceRow[]).map(fromRow);
+}
+
+/** Publishes or unpublishes a performance (owner only, enforced by RLS). */
+export async function setPerformanceVisibility(
+  id: string,
+  isPublic: boolean,
+  ogImagePath: string | null
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('performances')
+    .update({ is_public: isPublic, og_image_path: ogImagePath })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating performance visibility:', error);
+    return false;
+  }
+  return true;
+}
+
+// Keys only shortlist rows; some of them fail the distance check
+const CANDIDATES_PER_RESULT = 3;
+
+/** Public performances of one track: any encode whose acoustic fingerprint is close to `trackHash`. */
+export async function fetchTrackPerformances(
+  trackHash: string,
+  sort: TrackGallerySort,
+  limit = 60
+): Promise<Performance[]> {
+  const keys = fingerprintKeys(trackHash);
+  let query = supabase.from('performances').select(PERFORMANCE_COLUMNS).eq('is_public', true);
+  query = keys.length ? query.overlaps('track_keys', keys) : query.eq('track_hash', trackHash);
+  if (sort === 'liked') query = query.order('like_count', { ascending: false });
+  query = query.order('created_at', { ascending: false }).limit(limit * CANDIDATES_PER_RESULT);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error loading track gallery:', error);
+    return [];
+  }
+
+  return (data as PerformanceRow[])
+    .filter(row => isSameTrack(row.track_hash, trackHash))
+    .slice(0, limit)
+    .map(fromRow);
+}
+
+/** Which of `performanceIds` the user has liked. */
+export async function fetchLikedPerformanceIds(userId: string, performanceIds: string[]): Promise<Set<string>> {
+  if (!performanceIds.length) return new Set();
+  const { data, error } = await supabase
+    .from('performance_likes')
+    .select('performance_id')
+    .eq('user_id', userId)
+    .in('performance_id', performanceIds);
+
+  if (error) {
+    console.error('Error loading likes:', error);
+    return new Set();
+  }
+
+  return new Set((data as { performance_id: string }[]).map(row => row.performance_id));
+}
+
+export async function setPerformanceLiked(performanceId: string, userId: string, liked: boolean): Promise<boolean> {
+  const { error } = liked
+    ? await supabase.from('performance_likes').insert({ performance_id: performanceId, user_id: userId })
+    : await supabase.from('performance_likes').delete().eq('performance_id', performanceId).eq('user_id', userId);
+
+  if (error) {
+    console.error('Error updating like:', error);
+    return false;
+  }
+  return true;
+}
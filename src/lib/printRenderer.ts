@@ -0,0 +1,164 @@
+// src/lib/printRenderer.ts
+import * as THREE from 'three';
+import {
+  FSQ_VERT,
+  MAX_POINTERS,
+  RENDER_FRAG,
+  SIM_FRAG,
+  makePaletteArray,
+  makePointerUniforms,
+  writePointerUniforms,
+} from '../components/flowFieldShaders';
+import { EQ_LAYOUT } from '../config/eqLayout';
+import { applyGestureToPointers } from './gestureLog';
+import type { GestureLog, GesturePointer } from './gestureLog';
+import type { PrintPixels } from './soundPrint';
+
+// Fixed simulation clock, at the on-screen field's usual frame rate
+const STEPS_PER_SECOND = 60;
+// Ink fades by at least 0.5% a step and is dropped below 0.0015, so nothing
+// older than ~22 s is left at the end; only the tail of a take is replayed
+const REPLAY_SECONDS = 24;
+// Simulation steps between yields, so the page stays responsive
+const STEPS_PER_SLICE = 8;
+
+const nextTask = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Replays `log` through the flow field simulation at `width`×`height` (capped
+ * to the GPU's texture limit) on its own offscreen context, then renders it.
+ * Steps are fixed and the audio uniforms stay at rest, so a log always gives
+ * the same print, whatever screen it was performed on. Costly (a second
+ * WebGL context and hundreds of poster-size passes): only call it on request.
+ */
+export async function renderPosterPrint(log: GestureLog, width: number, height: number): Promise<PrintPixels> {
+  const renderer = new THREE.WebGLRenderer({ canvas: document.createElement('canvas'), antialias: false });
+  const disposables: { dispose(): void }[] = [];
+  const track = <T extends { dispose(): void }>(resource: T) => {
+    disposables.push(resource);
+    return resource;
+  };
+
+  try {
+    const scale = Math.min(1, renderer.capabilities.maxTextureSize / Math.max(width, height));
+    const w = Math.floor(width * scale);
+    const h = Math.floor(height * scale);
+
+    const targetOptions = {
+      minFilter: THREE.LinearFilter,
+      magFilter: THREE.LinearFilter,
+      format: THREE.RGBAFormat,
+      type: THREE.UnsignedByteType,
+      depthBuffer: false,
+      stencilBuffer: false,
+      wrapS: THREE.ClampToEdgeWrapping,
+      wrapT: THREE.ClampToEdgeWrapping,
+    };
+    let read = track(new THREE.WebGLRenderTarget(w, h, targetOptions));
+    let write = track(new THREE.WebGLRenderTarget(w, h, targetOptions));
+
+    const pointerUniforms = makePointerUniforms();
+    const simMat = track(
+      new THREE.ShaderMaterial({
+        vertexShader: FSQ_VERT,
+        fragmentShader: SIM_FRAG,
+        uniforms: {
+          uPrev: { value: read.texture },
+          uPointers: { value: pointerUniforms.positions },
+          uPointerVels: { value: pointerUniforms.velocities },
+          uPointerCount: { value: 0 },
+          uRes: { value: new THREE.Vector2(w, h) },
+          uTime: { value: 0 },
+          uBandEnergy: { value: new Float32Array(EQ_LAYOUT.bands) },
+          uRms: { value: 0 },
+          uOnset: { value: 0 },
+          uBeat: { value: 0 },
+          uMotion: { value: 1 },
+        },
+      })
+    );
+
+    const camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+    camera.position.z = 1;
+    const quad = new THREE.Mesh(track(new THREE.PlaneGeometry(2, 2)), simMat);
+    quad.frustumCulled = false;
+    const scene = new THREE.Scene();
+    scene.add(quad);
+
+    renderer.setClearColor(new THREE.Color(0, 0, 0), 1);
+    for (const target of [read, write]) {
+      renderer.setRenderTarget(target);
+      renderer.clear(true, true, true);
+    }
+
+    // -- Simulate --
+    const start = Math.max(0, log.duration - REPLAY_SECONDS);
+    const pointers = new Map<number, GesturePointer>();
+    const prevPointers = new Map<number, THREE.Vector2>();
+    let nextEvent = 0;
+    const applyUntil = (t: number) => {
+      for (; nextEvent < log.events.length && log.events[nextEvent].t <= t; nextEvent++) {
+        applyGestureToPointers(pointers, log.events[nextEvent]);
+      }
+    };
+    // Touches held from before the replayed tail carry into it
+    applyUntil(start);
+
+    const steps = Math.ceil((log.duration - start) * STEPS_PER_SECOND);
+    for (let step = 1; step <= steps; step++) {
+      const t = start + step / STEPS_PER_SECOND;
+      applyUntil(t);
+
+      const active = [...pointers.values()].slice(0, MAX_POINTERS);
+      writePointerUniforms(active, prevPointers, pointerUniforms);
+      simMat.uniforms.uPrev.value = read.texture;
+      simMat.uniforms.uPointerCount.value = active.length;
+      simMat.uniforms.uTime.value = t;
+
+      renderer.setRenderTarget(write);
+      renderer.render(scene, camera);
+      [read, write] = [write, read];
+
+      if (step % STEPS_PER_SLICE === 0) await nextTask();
+    }
+
+    // -- Render (no time, audio or pointer sparks) --
+    const renderMat = track(
+      new THREE.ShaderMaterial({
+        vertexShader: FSQ_VERT,
+        fragmentShader: RENDER_FRAG,
+        uniforms: {
+          uTex: { value: read.texture },
+          uPointers: { value: pointerUniforms.positions },
+          uPointerCount: { value: 0 },
+          uRes: { value: new THREE.Vector2(w, h) },
+          uTime: { value: 0 },
+          uCountdown: { value: 0 },
+          uPalette: { value: makePaletteArray() },
+          uBandEnergy: { value: new Float32Array(EQ_LAYOUT.bands) },
+          uBeat: { value: 0 },
+        },
+      })
+    );
+    quad.material = renderMat;
+    const output = track(
+      new THREE.WebGLRenderTarget(w, h, {
+        format: THREE.RGBAFormat,
+        type: THREE.UnsignedByteType,
+        depthBuffer: false,
+        stencilBuffer: false,
+      })
+    );
+
+    const data = new Uint8Array(w * h * 4);
+    renderer.setRenderTarget(output);
+    renderer.render(scene, camera);
+    renderer.readRenderTargetPixels(output, 0, 0, w, h, data);
+    return { width: w, height: h, data };
+  } finally {
+    renderer.setRenderTarget(null);
+    disposables.forEach(resource => resource.dispose());
+    renderer.dispose();
+    renderer.forceContextLoss();
+  }
+}
@@ -0,0 +1,18 @@
+// src/lib/sculptureExport.ts
+import type { Object3D } from 'three';
+
+/** PNG of whatever the canvas last drew; needs `preserveDrawingBuffer` on the renderer. */
+export function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas produced no image'))), 'image/png');
+  });
+}
+
+/** Binary glTF of `object` and everything under it, ready for Blender or a 3D viewer. */
+export async function toGlb(object: Object3D): Promise<Blob> {
+  // Loaded on demand; only people who export a sculpture need the exporter
+  const { GLTFExporter } = await import('three/examples/jsm/exporters/GLTFExporter.js');
+  const result = await new GLTFExporter().parseAsync(object, { binary: true });
+  if (!(result instanceof ArrayBuffer)) throw new Error('GLB export produced no binary');
+  return new Blob([result], { type: 'model/gltf-binary' });
+}
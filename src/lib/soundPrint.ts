@@ -0,0 +1,115 @@
+// src/lib/soundPrint.ts
+
+/** Poster-size Sound Print; override with VITE_PRINT_WIDTH / VITE_PRINT_HEIGHT (e.g. 3600×5400 for 2:3). */
+export const POSTER_PRINT_SIZE = {
+  width: Number(import.meta.env.VITE_PRINT_WIDTH) || 4096,
+  height: Number(import.meta.env.VITE_PRINT_HEIGHT) || 4096,
+};
+
+// Phones get a smaller print; a full-size replay can run them out of GPU memory
+const COARSE_POINTER_MAX_SIDE = 2048;
+
+/** POSTER_PRINT_SIZE, scaled down (aspect kept) on touch-first devices. */
+export function posterPrintSizeForDevice(): { width: number; height: number } {
+  const { width, height } = POSTER_PRINT_SIZE;
+  const maxSide = window.matchMedia('(pointer: coarse)').matches ? COARSE_POINTER_MAX_SIDE : Infinity;
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return { width: Math.floor(width * scale), height: Math.floor(height * scale) };
+}
+
+/** Raw RGBA pixels straight from a WebGL readback, bottom row first. */
+export interface PrintPixels {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/** What a take's poster print is labelled with; the print itself is only rendered on request. */
+export interface PosterPrintSource {
+  trackName: string;
+  /** ISO timestamp of the end of the ritual. */
+  createdAt: string;
+}
+
+/** A rendered poster print, kept in memory until it is downloaded. */
+export interface PosterPrint extends PosterPrintSource {
+  png: Blob;
+  width: number;
+  height: number;
+}
+
+/** Encodes a readback as PNG, flipping it the right way up. */
+export async function pixelsToPng({ width, height, data }: PrintPixels): Promise<Blob> {
+  const image = new ImageData(width, height);
+  const rowBytes = width * 4;
+  for (let y = 0; y < height; y++) {
+    const from = (height - 1 - y) * rowBytes;
+    image.data.set(data.subarray(from, from + rowBytes), y * rowBytes);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.putImageData(image, 0, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+}
+
+// -- PNG text chunks --
+
+const PNG_SIGNATURE_BYTES = 8;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = crcTable[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** An uncompressed iTXt chunk, so values can hold any Unicode (track names often do). */
+function itxtChunk(keyword: string, text: string): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const key = encoder.encode(keyword);
+  const value = encoder.encode(text);
+  // keyword \0, compression flag, compression method, language tag \0, translated keyword \0
+  const body = new Uint8Array(key.length + 5 + value.length);
+  body.set(key, 0);
+  body.set(value, key.length + 5);
+
+  const type = encoder.encode('iTXt');
+  const chunk = new Uint8Array(12 + body.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, body.length);
+  chunk.set(type, 4);
+  chunk.set(body, 8);
+  view.setUint32(8 + body.length, crc32(chunk.subarray(4, 8 + body.length)));
+  return chunk;
+}
+
+/**
+ * Adds text metadata to a PNG (right after the IHDR chunk, where viewers
+ * look first). Keywords should be the registered ones where they fit:
+ * Title, Author, Creation Time, Software, Description, Source.
+ */
+export async function withPngMetadata(png: Blob, metadata: Record<string, string>): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const ihdrLength = new DataView(bytes.buffer).getUint32(PNG_SIGNATURE_BYTES);
+  const afterIhdr = PNG_SIGNATURE_BYTES + 12 + ihdrLength;
+
+  const chunks = Object.entries(metadata)
+    .filter(([, text]) => text)
+    .map(([keyword, text]) => itxtChunk(keyword, text));
+
+  return new Blob([bytes.subarray(0, afterIhdr), ...chunks, bytes.subarray(afterIhdr)], { type: 'image/png' });
+}
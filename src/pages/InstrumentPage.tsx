@@ -4,70 +4,223 @@ import { useNavigate } from 'react-router-dom';
 
 import { useApp } from '../state/AppContext';
 import { useAnalytics } from '../hooks/useAnalytics';
-import audioEngine from '../audio/AudioEngine';
+import {
+  DEFAULT_RITUAL_SECONDS,
+  MIN_RITUAL_SECONDS,
+  resolveRitualDuration,
+  useRitualCountdown,
+} from '../hooks/useRitualCountdown';
+import type { RitualDuration } from '../hooks/useRitualCountdown';
+import audioEngine, { listAudioInputs } from '../audio/AudioEngine';
 import { FlowFieldInstrument } from '../components/FlowFieldInstrument';
+import { createGestureEvent, createGestureLog, eqStateAt, truncateGestureEvents } from '../lib/gestureLog';
+import type { GestureEvent, GesturePhase, GesturePointer } from '../lib/gestureLog';
+import { EQ_LAYOUT, bandFrequencies, formatFrequency, rowToGainDB } from '../config/eqLayout';
+import { addLibraryEntry } from '../lib/localLibrary';
+import { useMidiInput } from '../hooks/useMidiInput';
+import { useCursorControls } from '../hooks/useCursorControls';
+import type { CursorState } from '../hooks/useCursorControls';
+import { MidiSetupPanel } from '../components/MidiSetupPanel';
+import type { MidiBinding, MidiMessage } from '../lib/midiMapping';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import { EqHud } from '../components/EqHud';
 
-const MAX_BANDS = 36;
-const MAX_ROWS = 36;
+const MAX_BANDS = EQ_LAYOUT.bands;
+const MAX_ROWS = EQ_LAYOUT.rows;
+const MAX_POINTERS = 10;
+// MIDI controls get their own pointer slots after the touch ones, one per band
+const MIDI_POINTER_BASE = MAX_POINTERS;
+// Faders have no release; their pointer lifts once the control has rested this long
+const MIDI_IDLE_RELEASE_MS = 400;
+// Keyboard/gamepad cursor slot, after the MIDI ones
+const CURSOR_POINTER_SLOT = MIDI_POINTER_BASE + MAX_BANDS;
+const BAND_HZ = bandFrequencies(EQ_LAYOUT);
+// Band/gain changes are spoken at most this often; the latest one always gets through
+const ANNOUNCE_INTERVAL_MS = 600;
+const HUD_STORAGE_KEY = 'g4m3_hud_v1';
 
-const InstrumentPage: React.FC = () => {
+function loadHudPreference() {
+  try {
+    return localStorage.getItem(HUD_STORAGE_KEY) === '1';
+  } catch {
+    return false;
+  }
+}
+
+const readAudioFeatures = () => audioEngine.getFeatures();
+
+function formatTime(seconds: number) {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+const transportButtonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: '1px solid #00ff66',
+  color: '#00ff66',
+  fontFamily: 'monospace',
+  padding: '8px 16px',
+  cursor: 'pointer',
+};
+
+const readPlaybackTime = () => audioEngine.getPlaybackTime();
+
+const LIVE_TRACK_NAME = 'Live input';
+
+function describeLiveInputError(error: unknown): string {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return "Microphone access was blocked. Allow it in your browser's site settings and try again.";
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return 'No audio input found. Plug in a mic or interface, or pick another input.';
+  }
+  if (name === 'NotReadableError') return 'The input is in use by another app. Close it and try again.';
+  return "The audio input couldn't be opened.";
+}
+
+/** What a screen reader hears when a band is moved, e.g. "Band 12, 1.2 kHz, +4 dB". */
+function describeBandGain(bandIndex: number, rowIndex: number) {
+  const db = Math.round(rowToGainDB(EQ_LAYOUT, rowIndex));
+  return `Band ${bandIndex + 1}, ${formatFrequency(BAND_HZ[bandIndex])}, ${db > 0 ? '+' : ''}${db} dB`;
+}
+
+function toBandRow(x01: number, y01: number) {
+  const bandIndex = Math.min(MAX_BANDS - 1, Math.max(0, Math.floor(x01 * MAX_BANDS)));
+  const rowIndex = Math.min(MAX_ROWS - 1, Math.max(0, Math.floor(y01 * MAX_ROWS)));
+  return { bandIndex, rowIndex };
+}
+
+interface InstrumentPageProps {
+  /** 'live' plays a microphone or line-in through the EQ instead of the uploaded track. */
+  source?: 'track' | 'live';
+}
+
+const InstrumentPage: React.FC<InstrumentPageProps> = ({ source = 'track' }) => {
+  const isLive = source === 'live';
   const navigate = useNavigate();
-  const { state, saveRecording, setAudioBuffer, captureSoundPrint } = useApp();
+  const { state, saveRecording, decodeFile, captureSoundPrint, capturePosterPrint } = useApp();
   const { trackEvent } = useAnalytics();
+  const reducedMotion = usePrefersReducedMotion();
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [isIntroPlaying, setIsIntroPlaying] = useState(false);
   const [activeRows, setActiveRows] = useState<number[]>(new Array(MAX_BANDS).fill(-1));
-  const [isDecoding, setIsDecoding] = useState(false);
+  // Practice mode adds pause/seek; the take is still recorded as usual
+  const [practiceMode, setPracticeMode] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [ritualLength, setRitualLength] = useState<RitualDuration>({ kind: 'seconds', seconds: DEFAULT_RITUAL_SECONDS });
+  // Text of the custom length field; only in-range values reach ritualLength
+  const [customLength, setCustomLength] = useState('');
+  // Live input
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+  const [inputId, setInputId] = useState('');
+  const [monitor, setMonitor] = useState(false);
+  const [latencyMs, setLatencyMs] = useState<number | null>(null);
+  const [liveError, setLiveError] = useState<string | null>(null);
+  const [showMidiSetup, setShowMidiSetup] = useState(false);
+  // Screen reader live regions
+  const [statusMessage, setStatusMessage] = useState('');
+  const [gainAnnouncement, setGainAnnouncement] = useState('');
+  // Band/gain readout; remembered between rituals
+  const [showHud, setShowHud] = useState(loadHudPreference);
+  const [hudBand, setHudBand] = useState<number | null>(null);
 
-  // Pointer state 0..1
-  const [pointer01, setPointer01] = useState<{ x: number; y: number; down: boolean }>({
-    x: 0.5,
-    y: 0.5,
-    down: false,
-  });
+  // Pointer state 0..1, one entry per active finger/mouse
+  const [pointers, setPointers] = useState<GesturePointer[]>([]);
 
   const stageRef = useRef<HTMLDivElement | null>(null);
   const requestRef = useRef<number | null>(null);
   const startTimeRef = useRef<number>(0);
   const completedRef = useRef(false);
+  const gestureEventsRef = useRef<GestureEvent[]>([]);
+  const pointersRef = useRef(new Map<number, GesturePointer>());
+  // Browser pointerIds are arbitrary; map them onto small reusable slots
+  const pointerSlotsRef = useRef(new Map<number, number>());
+  const midiPointersRef = useRef(new Map<number, GesturePointer>());
+  const midiTimersRef = useRef(new Map<number, number>());
+  const launchButtonRef = useRef<HTMLButtonElement | null>(null);
+  const midiButtonRef = useRef<HTMLButtonElement | null>(null);
+  const surfaceRef = useRef<HTMLDivElement | null>(null);
+  const announcedCellRef = useRef(-1);
+  const pendingAnnouncementRef = useRef('');
+  const lastAnnounceAtRef = useRef(0);
+  const announceTimerRef = useRef<number | null>(null);
+
+  // Length of what is actually performed: the chosen region, the whole track,
+  // or for live input however long the timer runs
+  const ritualDuration = isLive
+    ? ritualLength.kind === 'seconds' ? ritualLength.seconds : DEFAULT_RITUAL_SECONDS
+    : state.region
+      ? state.region.end - state.region.start
+      : state.audioBuffer?.duration ?? 0;
+
+  const ritualSeconds = resolveRitualDuration(ritualLength, ritualDuration);
+  const customLengthMax = isLive ? Infinity : Math.max(MIN_RITUAL_SECONDS, Math.floor(ritualDuration));
+  const canLaunch = isLive || !!state.audioBuffer;
 
   // -- Lifecycle: Redirect if no audio --
   useEffect(() => {
-    if (!state.file && !state.audioBuffer) {
+    if (!isLive && !state.file && !state.audioBuffer) {
       navigate('/');
     }
-  }, [state.file, state.audioBuffer, navigate]);
+  }, [isLive, state.file, state.audioBuffer, navigate]);
 
-  // -- Lifecycle: Decode Audio --
+  // -- Lifecycle: List Live Inputs --
   useEffect(() => {
-    const decodeAudio = async () => {
-      if (state.file && !state.audioBuffer && !isDecoding) {
-        setIsDecoding(true);
-        try {
-          const arrayBuffer = await state.file.arrayBuffer();
-          const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-          const tempCtx = new AudioContextClass();
-          const decoded = await tempCtx.decodeAudioData(arrayBuffer);
-          setAudioBuffer(decoded);
-        } catch (err) {
-          console.error('Decoding failed:', err);
-          trackEvent('decode_error');
-        } finally {
-          setIsDecoding(false);
-        }
-      }
-    }
-    decodeAudio();
-  }, [state.file, state.audioBuffer, isDecoding, setAudioBuffer, trackEvent]);
+    if (!isLive) return;
+    listAudioInputs()
+      .then(setInputs)
+      .catch(e => console.warn('Listing audio inputs failed:', e));
+  }, [isLive]);
+
+  // -- Lifecycle: Decode Audio (joins the upload's decode if it is still running) --
+  useEffect(() => {
+    if (isLive || !state.file || state.audioBuffer || state.file.size === 0) return;
+    decodeFile(state.file).catch(err => {
+      console.error('Decoding failed:', err);
+      trackEvent('decode_error');
+    });
+  }, [isLive, state.file, state.audioBuffer, decodeFile, trackEvent]);
+
+  // -- Screen Reader Announcements --
+  // Throttled so a sweep across the surface reads as a few updates, not dozens
+  const announceGain = useCallback((bandIndex: number, rowIndex: number) => {
+    pendingAnnouncementRef.current = describeBandGain(bandIndex, rowIndex);
+    if (announceTimerRef.current !== null) return;
+
+    const wait = Math.max(0, lastAnnounceAtRef.current + ANNOUNCE_INTERVAL_MS - Date.now());
+    announceTimerRef.current = window.setTimeout(() => {
+      announceTimerRef.current = null;
+      lastAnnounceAtRef.current = Date.now();
+      setGainAnnouncement(pendingAnnouncementRef.current);
+    }, wait);
+  }, []);
+
+  // -- Focus: the launch button before play, the surface during it --
+  useEffect(() => {
+    if (!isPlaying && !isIntroPlaying && canLaunch) launchButtonRef.current?.focus();
+  }, [isPlaying, isIntroPlaying, canLaunch]);
+
+  useEffect(() => {
+    if (isPlaying && !isIntroPlaying && !isPaused) surfaceRef.current?.focus();
+  }, [isPlaying, isIntroPlaying, isPaused]);
 
   // -- Audio Interaction Logic --
   const applyInteraction01 = useCallback(
     (x01: number, y01: number) => {
       if (!isPlaying) return;
 
-      const bandIndex = Math.min(MAX_BANDS - 1, Math.max(0, Math.floor(x01 * MAX_BANDS)));
-      const rowIndex = Math.min(MAX_ROWS - 1, Math.max(0, Math.floor(y01 * MAX_ROWS)));
+      const { bandIndex, rowIndex } = toBandRow(x01, y01);
+
+      setHudBand(bandIndex);
+
+      const cell = bandIndex * MAX_ROWS + rowIndex;
+      if (announcedCellRef.current !== cell) {
+        announcedCellRef.current = cell;
+        announceGain(bandIndex, rowIndex);
+      }
 
       setActiveRows(prev => {
         if (prev[bandIndex] === rowIndex) return prev;
@@ -78,9 +231,29 @@ const InstrumentPage: React.FC = () => {
 
       audioEngine.setBandGain(bandIndex, rowIndex);
     },
+    [isPlaying, announceGain]
+  );
+
+  // -- Gesture Automation Log --
+  const recordGesture = useCallback(
+    (slot: number, x01: number, y01: number, phase: GesturePhase) => {
+      if (!isPlaying || audioEngine.isPaused()) return;
+      const { bandIndex, rowIndex } = toBandRow(x01, y01);
+      gestureEventsRef.current.push(
+        createGestureEvent(audioEngine.getPlaybackTime(), slot, x01, y01, bandIndex, rowIndex, phase)
+      );
+    },
     [isPlaying]
   );
 
+  // Duration is what was actually played, which is less than the ritual
+  // length when the track runs out first
+  const buildGestureLog = useCallback(
+    () =>
+      createGestureLog(gestureEventsRef.current, MAX_BANDS, MAX_ROWS, audioEngine.getTakeDuration(), state.region),
+    [state.region]
+  );
+
   // -- Ritual Completion --
   const handleRitualComplete = useCallback(() => {
     if (completedRef.current) return;
@@ -90,14 +263,36 @@ const InstrumentPage: React.FC = () => {
 
     // Capture SoundPrint
     const canvas = document.querySelector('canvas') as HTMLCanvasElement | null;
+    let soundPrintDataUrl: string | null = null;
     if (canvas) {
-      const dataUrl = canvas.toDataURL('image/png');
-      captureSoundPrint(dataUrl);
+      soundPrintDataUrl = canvas.toDataURL('image/png');
+      captureSoundPrint(soundPrintDataUrl);
     }
 
+    const trackName = isLive ? LIVE_TRACK_NAME : state.file?.name ?? 'untitled';
+    const gestureLog = buildGestureLog();
+
+    // The poster print is rendered from the log later, only if someone asks for it
+    capturePosterPrint({ trackName, createdAt: new Date().toISOString() });
+
     const blob = audioEngine.getRecordingBlob();
     if (blob) {
-      saveRecording(blob, activeRows);
+      // From the log rather than activeRows, which may be a render behind
+      const finalEQState = eqStateAt(gestureLog, gestureLog.duration);
+      saveRecording(blob, finalEQState, gestureLog);
+
+      // Keep the take on this device so the next ritual doesn't replace it
+      (async () => {
+        const soundPrint = soundPrintDataUrl ? await (await fetch(soundPrintDataUrl)).blob() : null;
+        await addLibraryEntry({
+          trackName,
+          duration: gestureLog.duration,
+          recording: blob,
+          soundPrint,
+          finalEQState,
+          gestureLog,
+        });
+      })().catch(e => console.warn('Saving to local library failed:', e));
     }
 
     trackEvent('ritual_complete', {
@@ -105,76 +300,344 @@ const InstrumentPage: React.FC = () => {
     });
 
     navigate('/result');
-  }, [activeRows, captureSoundPrint, saveRecording, navigate, trackEvent]);
+  }, [
+    buildGestureLog,
+    captureSoundPrint,
+    capturePosterPrint,
+    saveRecording,
+    isLive,
+    state.file?.name,
+    navigate,
+    trackEvent,
+  ]);
+
+  // The recorder's onstop is bound when the take starts; route it to the
+  // current callback rather than the one from that render
+  const ritualCompleteRef = useRef(handleRitualComplete);
+  useEffect(() => {
+    ritualCompleteRef.current = handleRitualComplete;
+  });
+
+  // Time's up: stopping the engine flushes the recorder, whose onstop lands in
+  // handleRitualComplete just like when the track runs out
+  const endRitual = useCallback(() => {
+    if (audioEngine.isRecording()) audioEngine.stop();
+    else handleRitualComplete();
+  }, [handleRitualComplete]);
+
+  const { countdown, progress: countdownProgress, startCountdown } = useRitualCountdown(
+    ritualSeconds,
+    { getElapsed: readPlaybackTime, onComplete: endRitual }
+  );
 
   // -- Game Loop --
   const updateLoop = useCallback(() => {
     if (!startTimeRef.current) return;
-    const elapsed = (Date.now() - startTimeRef.current) / 1000;
-    const duration = state.audioBuffer?.duration || 0;
+    // Audio clock rather than wall clock, so time spent paused doesn't count
+    const elapsed = audioEngine.getPlaybackTime();
+    const duration = ritualDuration;
 
     // Safety check if audio ends naturally
     if (duration > 0 && elapsed > duration + 1) {
       handleRitualComplete();
     }
 
+    if (practiceMode) setPosition(elapsed);
     requestRef.current = requestAnimationFrame(updateLoop);
-  }, [state.audioBuffer, handleRitualComplete]);
+  }, [ritualDuration, practiceMode, handleRitualComplete]);
 
   // -- Start Sequence --
   const beginActualPlayback = async () => {
-    if (!state.audioBuffer) return;
+    if (!isLive && !state.audioBuffer) return;
     try {
       completedRef.current = false;
+      gestureEventsRef.current = [];
       await audioEngine.init();
 
       const canvas = document.querySelector('canvas');
       const videoStream = canvas ? (canvas as HTMLCanvasElement).captureStream(30) : null;
+      const onTakeEnded = () => ritualCompleteRef.current();
 
-      audioEngine.startPlayback(state.audioBuffer, videoStream, (blob) => {
-        if (blob) saveRecording(blob, activeRows);
-        handleRitualComplete();
-      });
+      if (isLive) {
+        audioEngine.startLiveTake(videoStream, onTakeEnded);
+        setLatencyMs(Math.round(audioEngine.getLatency() * 1000));
+      } else if (state.audioBuffer) {
+        audioEngine.startPlayback(state.audioBuffer, videoStream, onTakeEnded, state.region);
+      }
 
       setIsPlaying(true);
+      setIsPaused(false);
+      setPosition(0);
       startTimeRef.current = Date.now();
       requestRef.current = requestAnimationFrame(updateLoop);
-      trackEvent('ritual_start');
+      startCountdown();
+      setStatusMessage(
+        `Ritual started: ${ritualSeconds} seconds. Arrow keys move across bands and levels, hold Space to shape the sound.`
+      );
+      trackEvent('ritual_start', { practiceMode, ritualSeconds, source });
     } catch (e) {
       console.error('Failed to start ritual:', e);
     }
   };
 
-  const handleLaunchClick = () => {
-    if (isPlaying || isIntroPlaying || !state.audioBuffer) return;
+  const handleLaunchClick = async () => {
+    if (isPlaying || isIntroPlaying || !canLaunch) return;
+
+    if (isLive) {
+      // Ask for the input on the click itself, not after the intro has played
+      try {
+        await audioEngine.openLiveInput({ deviceId: inputId || undefined, monitor });
+        setLiveError(null);
+        // Device labels only become readable once permission is granted
+        listAudioInputs().then(setInputs).catch(() => {});
+      } catch (e) {
+        console.error('Opening live input failed:', e);
+        setLiveError(describeLiveInputError(e));
+        trackEvent('live_input_error', { error: e instanceof DOMException ? e.name : 'unknown' });
+        return;
+      }
+    }
+
+    // A saved mapping means a controller is expected; connect it for the take
+    if (midi.bindings.length) midi.enable();
+
+    // The dissolve is a full-screen flash of motion; go straight in instead
+    if (reducedMotion) {
+      trackEvent('intro_video_skip', { reason: 'reduced_motion' });
+      beginActualPlayback();
+      return;
+    }
+
+    setStatusMessage('Starting…');
     setIsIntroPlaying(true);
     trackEvent('intro_video_start');
   };
 
   useEffect(() => {
+    const midiTimers = midiTimersRef.current;
     return () => {
       audioEngine.stop();
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
+      midiTimers.forEach(timer => clearTimeout(timer));
+      if (announceTimerRef.current !== null) clearTimeout(announceTimerRef.current);
     };
   }, []);
 
   // -- Input Normalization --
-  const updateFromPointerEvent = (e: React.PointerEvent) => {
-    const el = stageRef.current;
-    if (!el) return;
-
-    const r = el.getBoundingClientRect();
+  const toPointer01 = (e: React.PointerEvent) => {
+    const r = stageRef.current!.getBoundingClientRect();
     const x01 = (e.clientX - r.left) / r.width;
-    const y01Top = (e.clientY - r.top) / r.height;
-    const y01 = 1 - y01Top;
+    const y01 = 1 - (e.clientY - r.top) / r.height;
+    return { cx: Math.min(1, Math.max(0, x01)), cy: Math.min(1, Math.max(0, y01)) };
+  };
+
+  const slotFor = (pointerId: number): number | null => {
+    const slots = pointerSlotsRef.current;
+    const existing = slots.get(pointerId);
+    if (existing !== undefined) return existing;
+
+    const used = new Set(slots.values());
+    for (let slot = 0; slot < MAX_POINTERS; slot++) {
+      if (!used.has(slot)) {
+        slots.set(pointerId, slot);
+        return slot;
+      }
+    }
+    return null;
+  };
+
+  const publishPointers = () =>
+    setPointers([...pointersRef.current.values(), ...midiPointersRef.current.values()]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    (e.currentTarget as HTMLDivElement).setPointerCapture(e.pointerId);
+    const slot = slotFor(e.pointerId);
+    if (slot === null) return;
+
+    const { cx, cy } = toPointer01(e);
+    pointersRef.current.set(slot, { id: slot, x: cx, y: cy, down: true });
+    publishPointers();
+    recordGesture(slot, cx, cy, 'down');
+    applyInteraction01(cx, cy);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const slot = slotFor(e.pointerId);
+    if (slot === null) return;
+
+    const { cx, cy } = toPointer01(e);
+    const down = pointersRef.current.get(slot)?.down ?? false;
+    pointersRef.current.set(slot, { id: slot, x: cx, y: cy, down });
+    publishPointers();
+    recordGesture(slot, cx, cy, 'move');
+    if (down) applyInteraction01(cx, cy);
+  };
+
+  const releasePointer = (e: React.PointerEvent) => {
+    const slot = pointerSlotsRef.current.get(e.pointerId);
+    if (slot === undefined) return;
+
+    const p = pointersRef.current.get(slot);
+    if (p) recordGesture(slot, p.x, p.y, 'up');
+
+    if (e.pointerType === 'mouse') {
+      // A mouse keeps hovering after release; touches and pens are gone
+      if (p) pointersRef.current.set(slot, { ...p, down: false });
+    } else {
+      pointersRef.current.delete(slot);
+      pointerSlotsRef.current.delete(e.pointerId);
+    }
+    publishPointers();
+  };
+
+  // -- Practice Transport --
+  // Fingers can't stay down across a pause or a jump, so lift them all first
+  const liftAllPointers = () => {
+    for (const p of pointersRef.current.values()) {
+      if (p.down) recordGesture(p.id, p.x, p.y, 'up');
+    }
+    for (const p of midiPointersRef.current.values()) recordGesture(p.id, p.x, p.y, 'up');
+    midiTimersRef.current.forEach(timer => clearTimeout(timer));
+    midiTimersRef.current.clear();
+    pointersRef.current.clear();
+    pointerSlotsRef.current.clear();
+    midiPointersRef.current.clear();
+    publishPointers();
+  };
+
+  const handlePauseResume = () => {
+    if (isPaused) {
+      audioEngine.resume();
+      setIsPaused(false);
+      setStatusMessage('Resumed');
+      trackEvent('practice_resume');
+    } else {
+      liftAllPointers();
+      audioEngine.pause();
+      setIsPaused(true);
+      setStatusMessage('Paused');
+      trackEvent('practice_pause');
+    }
+  };
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const t = Number(e.target.value);
+    liftAllPointers();
+    audioEngine.seek(t);
+    gestureEventsRef.current = truncateGestureEvents(gestureEventsRef.current, t);
 
-    const cx = Math.min(1, Math.max(0, x01));
-    const cy = Math.min(1, Math.max(0, y01));
+    // Put the EQ back where the take stood at `t`
+    const rows = eqStateAt(buildGestureLog(), t);
+    audioEngine.resetEQ();
+    rows.forEach((row, band) => {
+      if (row >= 0) audioEngine.setBandGain(band, row);
+    });
+    setActiveRows(rows);
+    setPosition(t);
+  };
+
+  // -- MIDI --
+  const releaseMidiPointer = (slot: number) => {
+    clearTimeout(midiTimersRef.current.get(slot));
+    midiTimersRef.current.delete(slot);
+    const p = midiPointersRef.current.get(slot);
+    if (!p) return;
+    recordGesture(slot, p.x, p.y, 'up');
+    midiPointersRef.current.delete(slot);
+    publishPointers();
+  };
+
+  // A mapped control acts like a finger parked on its band at the row it sets,
+  // so the EQ, the gesture log and the flow field all follow it
+  const handleMidiBinding = (binding: MidiBinding, message: MidiMessage) => {
+    if (!isPlaying || audioEngine.isPaused()) return;
+    const slot = MIDI_POINTER_BASE + binding.band;
+    if (message.isNoteOff) {
+      releaseMidiPointer(slot);
+      return;
+    }
+
+    const row = 'row' in binding ? binding.row : Math.round(message.value01 * (MAX_ROWS - 1));
+    const x01 = (binding.band + 0.5) / MAX_BANDS;
+    const y01 = (row + 0.5) / MAX_ROWS;
+    const phase: GesturePhase = midiPointersRef.current.has(slot) ? 'move' : 'down';
+
+    midiPointersRef.current.set(slot, { id: slot, x: x01, y: y01, down: true });
+    publishPointers();
+    recordGesture(slot, x01, y01, phase);
+    applyInteraction01(x01, y01);
+
+    if (binding.control.kind === 'cc') {
+      clearTimeout(midiTimersRef.current.get(slot));
+      midiTimersRef.current.set(slot, window.setTimeout(() => releaseMidiPointer(slot), MIDI_IDLE_RELEASE_MS));
+    }
+  };
+
+  const midi = useMidiInput({ onBinding: handleMidiBinding });
+
+  // -- Keyboard & Gamepad --
+  // The cursor behaves like a mouse: it hovers, and presses while Space/A/a trigger is held
+  const handleCursor = ({ x01, y01, down }: CursorState) => {
+    if (!isPlaying || audioEngine.isPaused()) return;
+    const wasDown = pointersRef.current.get(CURSOR_POINTER_SLOT)?.down ?? false;
+    pointersRef.current.set(CURSOR_POINTER_SLOT, { id: CURSOR_POINTER_SLOT, x: x01, y: y01, down });
+    publishPointers();
+    recordGesture(CURSOR_POINTER_SLOT, x01, y01, down === wasDown ? 'move' : down ? 'down' : 'up');
+    if (down) applyInteraction01(x01, y01);
+  };
+
+  const { cursor } = useCursorControls({
+    enabled: isPlaying && !isIntroPlaying,
+    bands: MAX_BANDS,
+    rows: MAX_ROWS,
+    onCursor: handleCursor,
+  });
 
-    setPointer01(prev => ({ ...prev, x: cx, y: cy }));
-    if (pointer01.down) applyInteraction01(cx, cy);
+  const openMidiSetup = async () => {
+    await midi.enable();
+    setShowMidiSetup(true);
+    trackEvent('midi_setup_open');
   };
 
+  const toggleHud = useCallback(() => {
+    const next = !showHud;
+    setShowHud(next);
+    try {
+      localStorage.setItem(HUD_STORAGE_KEY, next ? '1' : '0');
+    } catch (e) {
+      console.warn('Saving HUD preference failed:', e);
+    }
+    // Keep arrows and Space on the surface after a click on the toggle
+    surfaceRef.current?.focus();
+    trackEvent('hud_toggle', { visible: next });
+  }, [showHud, trackEvent]);
+
+  // H toggles the HUD without reaching for the button mid-take
+  useEffect(() => {
+    if (!isPlaying) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== 'h' || e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+      toggleHud();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isPlaying, toggleHud]);
+
+  const closeMidiSetup = () => {
+    setShowMidiSetup(false);
+    midiButtonRef.current?.focus();
+  };
+
+  const toggleMonitor = () => {
+    audioEngine.setMonitoring(!monitor);
+    setMonitor(!monitor);
+    trackEvent('live_monitor_toggle', { monitor: !monitor });
+  };
+
+  const duration = ritualDuration;
+  // Spoken near the end; empty the rest of the time so it isn't repeated
+  const timeNotice = isPlaying && (countdown === 10 || countdown === 5) ? `${countdown} seconds left` : '';
+
   return (
     <div
       ref={stageRef}
@@ -190,6 +653,7 @@ const InstrumentPage: React.FC = () => {
       {isIntroPlaying && (
         <video
           src="/intro-dissolve.mp4"
+          aria-hidden="true"
           autoPlay
           muted
           playsInline
@@ -211,7 +675,15 @@ const InstrumentPage: React.FC = () => {
       )}
 
       {/* R3F CANVAS - VISUAL INSTRUMENT */}
-      <div style={{ width: '100%', height: '100%', opacity: isPlaying ? 1 : 0, transition: 'opacity 1s ease-in' }}>
+      <div
+        aria-hidden="true"
+        style={{
+          width: '100%',
+          height: '100%',
+          opacity: isPlaying ? 1 : 0,
+          transition: reducedMotion ? 'none' : 'opacity 1s ease-in',
+        }}
+      >
         <Canvas
           dpr={[1, 2]}
           gl={{
@@ -223,32 +695,156 @@ const InstrumentPage: React.FC = () => {
           camera={{ zoom: 1, position: [0, 0, 1] }}
           style={{ position: 'absolute', inset: 0 }}
         >
-          <FlowFieldInstrument pointer01={pointer01} countdownProgress={0} />
+          <FlowFieldInstrument
+            pointers={pointers}
+            countdownProgress={countdownProgress}
+            getAudioFeatures={readAudioFeatures}
+            calm={reducedMotion}
+          />
         </Canvas>
       </div>
 
       {/* FULL-SCREEN INPUT LAYER */}
-      {isPlaying && !isIntroPlaying && (
+      {isPlaying && !isIntroPlaying && !isPaused && (
         <div
-          style={{ position: 'absolute', inset: 0, zIndex: 10, cursor: 'crosshair' }}
-          onPointerDown={(e) => {
-            (e.currentTarget as HTMLDivElement).setPointerCapture(e.pointerId);
-            const el = stageRef.current!;
-            const r = el.getBoundingClientRect();
-            const x01 = (e.clientX - r.left) / r.width;
-            const y01 = 1 - (e.clientY - r.top) / r.height;
-            const cx = Math.min(1, Math.max(0, x01));
-            const cy = Math.min(1, Math.max(0, y01));
-
-            setPointer01({ x: cx, y: cy, down: true });
-            applyInteraction01(cx, cy);
+          ref={surfaceRef}
+          tabIndex={0}
+          role="application"
+          aria-label="EQ surface"
+          aria-describedby="instrument-surface-help"
+          style={{ position: 'absolute', inset: 0, zIndex: 10, cursor: 'crosshair', outline: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={releasePointer}
+          onPointerCancel={releasePointer}
+        />
+      )}
+
+      {/* SCREEN READER LAYER */}
+      <p id="instrument-surface-help" className="sr-only">
+        {MAX_BANDS} bands from low on the left to high on the right; up boosts, down cuts. Arrow keys move one step,
+        Shift and an arrow moves four. Hold Space to apply.
+      </p>
+      <div className="sr-only" role="status">
+        {statusMessage}
+      </div>
+      <div className="sr-only" aria-live="polite" aria-atomic="true">
+        {gainAnnouncement}
+      </div>
+      <div className="sr-only" aria-live="assertive">
+        {timeNotice}
+      </div>
+
+      {/* KEYBOARD / GAMEPAD CURSOR */}
+      {isPlaying && cursor && (
+        <div
+          aria-hidden="true"
+          style={{
+            position: 'absolute',
+            left: `${(Math.floor(cursor.x01 * MAX_BANDS) / MAX_BANDS) * 100}%`,
+            bottom: `${(Math.floor(cursor.y01 * MAX_ROWS) / MAX_ROWS) * 100}%`,
+            width: `${100 / MAX_BANDS}%`,
+            height: `${100 / MAX_ROWS}%`,
+            zIndex: 15,
+            boxSizing: 'border-box',
+            border: '2px solid #00ff66',
+            background: cursor.down ? 'rgba(0, 255, 102, 0.5)' : 'transparent',
+            pointerEvents: 'none',
           }}
-          onPointerMove={updateFromPointerEvent}
-          onPointerUp={() => setPointer01(prev => ({ ...prev, down: false }))}
-          onPointerCancel={() => setPointer01(prev => ({ ...prev, down: false }))}
         />
       )}
 
+      {/* RITUAL TIMER */}
+      {isPlaying && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '16px',
+            right: '16px',
+            zIndex: 20,
+            color: '#00ff66',
+            fontFamily: 'monospace',
+            fontSize: '1.25rem',
+            pointerEvents: 'none',
+            opacity: countdown <= 5 ? 1 : 0.6,
+          }}
+        >
+          {formatTime(countdown)}
+        </div>
+      )}
+
+      {/* BAND / GAIN HUD */}
+      {isPlaying && showHud && <EqHud activeRows={activeRows} focusBand={hudBand} />}
+      {isPlaying && (
+        <button
+          style={{ ...transportButtonStyle, position: 'absolute', top: '56px', right: '16px', zIndex: 20, padding: '4px 8px', fontSize: '0.75rem' }}
+          onClick={toggleHud}
+          aria-pressed={showHud}
+          title="Band and gain readout (H)"
+        >
+          HUD {showHud ? 'ON' : 'OFF'}
+        </button>
+      )}
+
+      {/* LIVE INPUT STATUS */}
+      {isPlaying && isLive && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '16px',
+            left: '16px',
+            zIndex: 20,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '12px',
+            color: '#00ff66',
+            fontFamily: 'monospace',
+          }}
+        >
+          <span>LIVE{latencyMs ? ` · ${latencyMs} MS` : ''}</span>
+          <button style={transportButtonStyle} onClick={toggleMonitor}>
+            MONITOR {monitor ? 'ON' : 'OFF'}
+          </button>
+        </div>
+      )}
+
+      {/* PRACTICE TRANSPORT */}
+      {isPlaying && practiceMode && (
+        <div
+          style={{
+            position: 'absolute',
+            left: 0,
+            right: 0,
+            bottom: 0,
+            zIndex: 20,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '12px',
+            padding: '12px 16px',
+            background: 'linear-gradient(transparent, rgba(0,0,0,0.8))',
+            color: '#00ff66',
+            fontFamily: 'monospace',
+          }}
+        >
+          <button style={transportButtonStyle} onClick={handlePauseResume}>
+            {isPaused ? 'RESUME' : 'PAUSE'}
+          </button>
+          <span>{formatTime(position)}</span>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.01}
+            value={Math.min(position, duration)}
+            onChange={handleSeek}
+            aria-label="Position"
+            aria-valuetext={`${formatTime(position)} of ${formatTime(duration)}`}
+            style={{ flex: 1, accentColor: '#00ff66' }}
+          />
+          <span>{formatTime(duration)}</span>
+        </div>
+      )}
+
       {/* LAUNCH SCREEN */}
       {!isPlaying && !isIntroPlaying && (
         <div
@@ -264,23 +860,189 @@ const InstrumentPage: React.FC = () => {
             justifyContent: 'center',
           }}
         >
+          <h1 className="sr-only">{isLive ? 'Live ritual' : `Ritual: ${state.file?.name ?? 'your track'}`}</h1>
           <button
+            ref={launchButtonRef}
             onClick={handleLaunchClick}
-            disabled={!state.audioBuffer}
+            disabled={!canLaunch}
+            aria-label={!canLaunch ? 'Loading track…' : isLive ? 'Begin live ritual' : 'Begin ritual'}
+            aria-busy={!canLaunch}
             style={{
               width: '28vmin',
               height: '28vmin',
               borderRadius: '50%',
               backgroundColor: 'transparent',
               border: 'none',
-              cursor: !state.audioBuffer ? 'wait' : 'pointer',
-              boxShadow: !state.audioBuffer ? 'none' : '0 0 50px rgba(0, 255, 102, 0.4)',
-              animation: !state.audioBuffer ? 'none' : 'pulse 3s infinite ease-in-out',
+              cursor: !canLaunch ? 'wait' : 'pointer',
+              boxShadow: !canLaunch ? 'none' : '0 0 50px rgba(0, 255, 102, 0.4)',
+              animation: !canLaunch || reducedMotion ? 'none' : 'pulse 3s infinite ease-in-out',
             }}
           />
+          {isLive ? (
+            <div
+              style={{
+                position: 'absolute',
+                bottom: '8vh',
+                left: '50%',
+                transform: 'translateX(-50%)',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '12px',
+                color: '#00ff66',
+                fontFamily: 'monospace',
+              }}
+            >
+              <select
+                aria-label="Audio input"
+                value={inputId}
+                onChange={e => setInputId(e.target.value)}
+                style={{ ...transportButtonStyle, background: '#050810', maxWidth: '40vw' }}
+              >
+                <option value="">DEFAULT INPUT</option>
+                {inputs.map((input, i) => (
+                  <option key={input.deviceId || i} value={input.deviceId}>
+                    {input.label || `INPUT ${i + 1}`}
+                  </option>
+                ))}
+              </select>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={monitor}
+                  onChange={e => setMonitor(e.target.checked)}
+                  style={{ accentColor: '#00ff66' }}
+                />
+                MONITOR (HEADPHONES ONLY)
+              </label>
+            </div>
+          ) : (
+            <label
+              style={{
+                position: 'absolute',
+                bottom: '8vh',
+                left: '50%',
+                transform: 'translateX(-50%)',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                color: '#00ff66',
+                fontFamily: 'monospace',
+                cursor: 'pointer',
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={practiceMode}
+                onChange={e => setPracticeMode(e.target.checked)}
+                style={{ accentColor: '#00ff66' }}
+              />
+              PRACTICE MODE (PAUSE &amp; SCRUB)
+            </label>
+          )}
+          {liveError && (
+            <div
+              role="alert"
+              style={{
+                position: 'absolute',
+                top: '12vh',
+                left: '50%',
+                transform: 'translateX(-50%)',
+                width: 'min(90vw, 480px)',
+                color: '#ff4d6d',
+                fontFamily: 'monospace',
+                textAlign: 'center',
+              }}
+            >
+              {liveError}
+            </div>
+          )}
+          <div
+            style={{
+              position: 'absolute',
+              bottom: '14vh',
+              left: '50%',
+              transform: 'translateX(-50%)',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              color: '#00ff66',
+              fontFamily: 'monospace',
+            }}
+          >
+            <span>RITUAL:</span>
+            <button
+              style={{ ...transportButtonStyle, opacity: ritualLength.kind === 'seconds' && ritualLength.seconds === DEFAULT_RITUAL_SECONDS ? 1 : 0.5 }}
+              onClick={() => {
+                setCustomLength('');
+                setRitualLength({ kind: 'seconds', seconds: DEFAULT_RITUAL_SECONDS });
+              }}
+            >
+              {DEFAULT_RITUAL_SECONDS}S
+            </button>
+            {!isLive && (
+              <button
+                style={{ ...transportButtonStyle, opacity: ritualLength.kind === 'track' ? 1 : 0.5 }}
+                onClick={() => {
+                  setCustomLength('');
+                  setRitualLength({ kind: 'track' });
+                }}
+              >
+                FULL TRACK
+              </button>
+            )}
+            <input
+              type="number"
+              min={MIN_RITUAL_SECONDS}
+              max={isLive ? undefined : customLengthMax}
+              aria-label="Custom ritual length in seconds"
+              placeholder="CUSTOM"
+              value={customLength}
+              onChange={e => {
+                setCustomLength(e.target.value);
+                const seconds = Number(e.target.value);
+                if (e.target.value && seconds >= MIN_RITUAL_SECONDS && seconds <= customLengthMax) {
+                  setRitualLength({ kind: 'seconds', seconds });
+                }
+              }}
+              // Out-of-range entries snap to the nearest allowed length when the field is left
+              onBlur={() => {
+                if (!customLength) return;
+                const seconds = Math.min(customLengthMax, Math.max(MIN_RITUAL_SECONDS, Number(customLength) || 0));
+                setCustomLength(String(seconds));
+                setRitualLength({ kind: 'seconds', seconds });
+              }}
+              style={{ ...transportButtonStyle, width: '6em', cursor: 'text' }}
+            />
+          </div>
+          <button
+            ref={midiButtonRef}
+            style={{ ...transportButtonStyle, position: 'absolute', top: '16px', right: '16px' }}
+            onClick={openMidiSetup}
+          >
+            MIDI{midi.bindings.length ? ` · ${midi.bindings.length} MAPPED` : ''}
+          </button>
+          <div
+            style={{
+              position: 'absolute',
+              bottom: '2vh',
+              left: '50%',
+              transform: 'translateX(-50%)',
+              color: '#00ff66',
+              fontFamily: 'monospace',
+              fontSize: '0.75rem',
+              opacity: 0.7,
+              whiteSpace: 'nowrap',
+            }}
+          >
+            NO POINTER? ARROWS + SPACE, OR A GAMEPAD
+          </div>
           <style>{`@keyframes pulse { 0% { transform: scale(1); } 50% { transform: scale(1.02); } 100% { transform: scale(1); } }`}</style>
         </div>
       )}
+
+      {showMidiSetup && (
+        <MidiSetupPanel midi={midi} bands={MAX_BANDS} rows={MAX_ROWS} onClose={closeMidiSetup} />
+      )}
     </div>
   );
 };
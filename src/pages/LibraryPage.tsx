@@ -0,0 +1,292 @@
+// src/pages/LibraryPage.tsx
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import { useApp } from '../state/AppContext';
+import { useAnalytics } from '../hooks/useAnalytics';
+import { deleteLibraryEntry, listLibraryEntries } from '../lib/localLibrary';
+import type { LibraryEntry } from '../lib/localLibrary';
+import { downloadBlob } from '../lib/download';
+import { isMp4 } from '../lib/mp4Export';
+import { fetchUserPerformances } from '../lib/performances';
+import type { Performance } from '../lib/performances';
+import { signedUrlFor } from '../lib/cloudStorage';
+
+type LibraryItem = { entry: LibraryEntry; printUrl: string | null };
+type CloudItem = { performance: Performance; printUrl: string | null };
+
+function formatTime(seconds: number) {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+const buttonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: '1px solid #00ff66',
+  color: '#00ff66',
+  fontFamily: 'monospace',
+  padding: '6px 10px',
+  cursor: 'pointer',
+};
+
+const LibraryPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { auth } = useApp();
+  const { trackEvent } = useAnalytics();
+  const userId = auth.user?.id;
+
+  const [items, setItems] = useState<LibraryItem[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [watching, setWatching] = useState<{ url: string; revoke: boolean } | null>(null);
+  const [cloudItems, setCloudItems] = useState<CloudItem[] | null>(null);
+
+  // -- Lifecycle: Load Library --
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+
+    listLibraryEntries()
+      .then(entries => {
+        if (cancelled) return;
+        setItems(
+          entries.map(entry => {
+            const printUrl = entry.soundPrint ? URL.createObjectURL(entry.soundPrint) : null;
+            if (printUrl) urls.push(printUrl);
+            return { entry, printUrl };
+          })
+        );
+      })
+      .catch(e => {
+        console.error('Loading local library failed:', e);
+        if (!cancelled) setLoadError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  // -- Lifecycle: Load Cloud Rituals (signed-in users, any device) --
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    fetchUserPerformances(userId).then(async performances => {
+      const items = await Promise.all(
+        performances.map(async performance => ({
+          performance,
+          printUrl: performance.soundPrintPath
+            ? await signedUrlFor(performance.soundPrintPath)
+            : performance.thumbnailDataUrl,
+        }))
+      );
+      if (!cancelled) setCloudItems(items);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const watch = (entry: LibraryEntry) => {
+    setWatching({ url: URL.createObjectURL(entry.recording), revoke: true });
+    trackEvent('library_watch');
+  };
+
+  const watchCloud = async (performance: Performance) => {
+    if (!performance.recordingPath) return;
+    const url = await signedUrlFor(performance.recordingPath);
+    if (url) setWatching({ url, revoke: false });
+    trackEvent('library_watch', { source: 'cloud' });
+  };
+
+  const closeWatch = () => {
+    if (watching?.revoke) URL.revokeObjectURL(watching.url);
+    setWatching(null);
+  };
+
+  const downloadCloud = async (performance: Performance) => {
+    if (!performance.recordingPath) return;
+    try {
+      const url = await signedUrlFor(performance.recordingPath);
+      if (!url) throw new Error('No signed URL');
+      const blob = await (await fetch(url)).blob();
+      downloadBlob(blob, `4B4KU5-session-${Date.parse(performance.createdAt)}.${isMp4(blob) ? 'mp4' : 'webm'}`);
+      trackEvent('library_download', { source: 'cloud' });
+    } catch (e) {
+      console.error('Cloud download failed:', e);
+      alert('Failed to download this ritual. Please try again.');
+    }
+  };
+
+  const download = (entry: LibraryEntry) => {
+    downloadBlob(entry.recording, `4B4KU5-session-${entry.createdAt}.${isMp4(entry.recording) ? 'mp4' : 'webm'}`);
+    trackEvent('library_download');
+  };
+
+  const downloadPrint = (entry: LibraryEntry) => {
+    if (!entry.soundPrint) return;
+    downloadBlob(entry.soundPrint, `4B4KU5-print-${entry.createdAt}.png`);
+    trackEvent('library_download_print');
+  };
+
+  const remove = async (entry: LibraryEntry) => {
+    if (!window.confirm(`Delete this ritual of "${entry.trackName}"? This can't be undone.`)) return;
+    try {
+      await deleteLibraryEntry(entry.id);
+      setItems(prev => prev?.filter(item => item.entry.id !== entry.id) ?? null);
+      trackEvent('library_delete');
+    } catch (e) {
+      console.error('Deleting library entry failed:', e);
+      alert('Failed to delete this ritual. Please try again.');
+    }
+  };
+
+  return (
+    <div
+      style={{
+        width: '100vw',
+        height: '100dvh',
+        background: '#050810',
+        color: '#00ff66',
+        fontFamily: 'monospace',
+        overflowY: 'auto',
+        padding: '24px 16px',
+        boxSizing: 'border-box',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '24px' }}>
+        <div style={{ fontSize: '1.25rem' }}>MY RITUALS</div>
+        <button style={buttonStyle} onClick={() => navigate('/')}>
+          NEW RITUAL
+        </button>
+      </div>
+
+      {loadError && <div>Your library couldn't be opened in this browser.</div>}
+      {!loadError && !items && <div>LOADING…</div>}
+      {items && items.length === 0 && <div>No rituals yet. Finished takes are kept here on this device.</div>}
+
+      {items && items.length > 0 && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))', gap: '16px' }}>
+          {items.map(({ entry, printUrl }) => (
+            <div key={entry.id} style={{ border: '1px solid rgba(0, 255, 102, 0.4)', padding: '8px' }}>
+              <div style={{ aspectRatio: '16 / 9', background: '#000', marginBottom: '8px' }}>
+                {printUrl && (
+                  <img src={printUrl} alt="Sound Print" style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+                )}
+              </div>
+              <div style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{entry.trackName}</div>
+              <div style={{ fontSize: '0.75rem', opacity: 0.7, marginBottom: '8px' }}>
+                {new Date(entry.createdAt).toLocaleString()} · {formatTime(entry.duration)}
+              </div>
+              <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+                <button style={buttonStyle} onClick={() => watch(entry)}>
+                  PLAY
+                </button>
+                <button style={buttonStyle} onClick={() => download(entry)}>
+                  DOWNLOAD
+                </button>
+                {entry.soundPrint && (
+                  <button style={buttonStyle} onClick={() => downloadPrint(entry)}>
+                    PRINT
+                  </button>
+                )}
+                <button style={{ ...buttonStyle, borderColor: '#ff4d6d', color: '#ff4d6d' }} onClick={() => remove(entry)}>
+                  DELETE
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {userId && (
+        <>
+          <div style={{ fontSize: '1.25rem', margin: '32px 0 16px' }}>IN THE CLOUD</div>
+          {!cloudItems && <div>LOADING…</div>}
+          {cloudItems && cloudItems.length === 0 && <div>Nothing synced yet. Signed-in takes are saved here.</div>}
+          {cloudItems && cloudItems.length > 0 && (
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))', gap: '16px' }}>
+              {cloudItems.map(({ performance, printUrl }) => (
+                <div key={performance.id} style={{ border: '1px solid rgba(0, 255, 102, 0.4)', padding: '8px' }}>
+                  <div style={{ aspectRatio: '16 / 9', background: '#000', marginBottom: '8px' }}>
+                    {printUrl && (
+                      <img src={printUrl} alt="Sound Print" style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+                    )}
+                  </div>
+                  <div style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {performance.trackName}
+                  </div>
+                  <div style={{ fontSize: '0.75rem', opacity: 0.7, marginBottom: '8px' }}>
+                    {new Date(performance.createdAt).toLocaleString()}
+                  </div>
+                  <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+                    {performance.recordingPath && (
+                      <button style={buttonStyle} onClick={() => watchCloud(performance)}>
+                        PLAY
+                      </button>
+                    )}
+                    {performance.gestureData && (
+                      <button style={buttonStyle} onClick={() => navigate(`/replay/${performance.id}`)}>
+                        REPLAY
+                      </button>
+                    )}
+                    <button style={buttonStyle} onClick={() => navigate(`/p/${performance.id}`)}>
+                      {performance.isPublic ? 'SHARED PAGE' : 'SHARE'}
+                    </button>
+                    {performance.trackHash && (
+                      <button
+                        style={buttonStyle}
+                        onClick={() => navigate(`/track/${encodeURIComponent(performance.trackHash)}`)}
+                      >
+                        OTHERS' PRINTS
+                      </button>
+                    )}
+                    {performance.recordingPath && (
+                      <button style={buttonStyle} onClick={() => downloadCloud(performance)}>
+                        DOWNLOAD
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {watching && (
+        <div
+          onClick={closeWatch}
+          style={{
+            position: 'fixed',
+            inset: 0,
+            zIndex: 50,
+            background: 'rgba(0,0,0,0.9)',
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: '12px',
+            padding: '16px',
+          }}
+        >
+          <video
+            src={watching.url}
+            controls
+            autoPlay
+            playsInline
+            onClick={e => e.stopPropagation()}
+            style={{ maxWidth: '100%', maxHeight: '80vh' }}
+          />
+          <button style={buttonStyle} onClick={closeWatch}>
+            CLOSE
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryPage;
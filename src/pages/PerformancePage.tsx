@@ -0,0 +1,215 @@
+// src/pages/PerformancePage.tsx
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+
+import { useApp } from '../state/AppContext';
+import { useAnalytics } from '../hooks/useAnalytics';
+import { fetchPerformance, setPerformanceVisibility } from '../lib/performances';
+import type { Performance } from '../lib/performances';
+import { signedUrlFor, uploadResumable } from '../lib/cloudStorage';
+import { renderOgImage } from '../lib/ogImage';
+
+const buttonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: '1px solid #00ff66',
+  color: '#00ff66',
+  fontFamily: 'monospace',
+  padding: '8px 16px',
+  cursor: 'pointer',
+};
+
+/** Sets (or adds) a <meta> tag in the document head. */
+function setMeta(attr: 'name' | 'property', key: string, content: string) {
+  let tag = document.head.querySelector<HTMLMetaElement>(`meta[${attr}="${key}"]`);
+  if (!tag) {
+    tag = document.createElement('meta');
+    tag.setAttribute(attr, key);
+    document.head.appendChild(tag);
+  }
+  tag.content = content;
+}
+
+const PerformancePage: React.FC = () => {
+  const { performanceId } = useParams();
+  const navigate = useNavigate();
+  const { auth } = useApp();
+  const { trackEvent } = useAnalytics();
+
+  const [performance, setPerformance] = useState<Performance | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [printUrl, setPrintUrl] = useState<string | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const isOwner = !!performance && auth.user?.id === performance.userId;
+
+  // -- Lifecycle: Load Performance --
+  useEffect(() => {
+    if (!performanceId) return;
+    let cancelled = false;
+
+    (async () => {
+      const p = await fetchPerformance(performanceId);
+      if (cancelled) return;
+      if (!p) {
+        setLoadError('This ritual is private or no longer exists.');
+        return;
+      }
+      setPerformance(p);
+
+      const [print, video] = await Promise.all([
+        p.soundPrintPath ? signedUrlFor(p.soundPrintPath) : Promise.resolve(p.thumbnailDataUrl),
+        p.recordingPath ? signedUrlFor(p.recordingPath) : Promise.resolve(null),
+      ]);
+      if (cancelled) return;
+      setPrintUrl(print);
+      setVideoUrl(video);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [performanceId]);
+
+  // -- Share Meta (crawlers get these from /api/og-performance; this covers in-app previews) --
+  useEffect(() => {
+    if (!performance) return;
+    const title = `${performance.trackName} · 4B4KU5 ritual`;
+    document.title = title;
+    setMeta('property', 'og:title', title);
+    setMeta('property', 'og:type', 'video.other');
+    setMeta('property', 'og:url', window.location.href);
+    setMeta('name', 'twitter:card', 'summary_large_image');
+    setMeta('name', 'twitter:title', title);
+    if (printUrl && !printUrl.startsWith('data:')) {
+      setMeta('property', 'og:image', printUrl);
+      setMeta('name', 'twitter:image', printUrl);
+    }
+  }, [performance, printUrl]);
+
+  const togglePublic = async () => {
+    if (!performance || !isOwner || isUpdating) return;
+    const makePublic = !performance.isPublic;
+    setIsUpdating(true);
+
+    // First publish: render the share card from the Sound Print
+    let ogImagePath = performance.ogImagePath;
+    if (makePublic && !ogImagePath && printUrl) {
+      try {
+        const folder = performance.soundPrintPath
+          ? performance.soundPrintPath.slice(0, performance.soundPrintPath.lastIndexOf('/'))
+          : `${performance.userId}/${performance.id}`;
+        ogImagePath = await uploadResumable(`${folder}/og.png`, await renderOgImage(printUrl, performance.trackName));
+      } catch (e) {
+        console.warn('Share image generation failed:', e);
+      }
+    }
+
+    if (await setPerformanceVisibility(performance.id, makePublic, ogImagePath)) {
+      setPerformance({ ...performance, isPublic: makePublic, ogImagePath });
+      trackEvent(makePublic ? 'performance_published' : 'performance_unpublished', { performanceId: performance.id });
+    } else {
+      alert('Failed to update sharing. Please try again.');
+    }
+    setIsUpdating(false);
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      trackEvent('performance_link_copied', { performanceId });
+    } catch {
+      window.prompt('Copy this link:', window.location.href);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        width: '100vw',
+        height: '100dvh',
+        background: '#050810',
+        color: '#00ff66',
+        fontFamily: 'monospace',
+        overflowY: 'auto',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: '16px',
+        padding: '24px 16px',
+        boxSizing: 'border-box',
+        textAlign: 'center',
+      }}
+    >
+      {loadError && (
+        <>
+          <div style={{ marginTop: '30vh' }}>{loadError}</div>
+          <button style={buttonStyle} onClick={() => navigate('/')}>
+            PERFORM YOUR OWN
+          </button>
+        </>
+      )}
+
+      {!loadError && !performance && <div style={{ marginTop: '30vh' }}>LOADING RITUAL…</div>}
+
+      {performance && (
+        <>
+          <div style={{ fontSize: '1.25rem' }}>{performance.trackName}</div>
+          <div style={{ fontSize: '0.75rem', opacity: 0.7 }}>{new Date(performance.createdAt).toLocaleString()}</div>
+
+          {videoUrl ? (
+            <video
+              src={videoUrl}
+              poster={printUrl ?? undefined}
+              controls
+              playsInline
+              style={{ width: 'min(100%, 960px)', maxHeight: '60vh', background: '#000' }}
+            />
+          ) : (
+            printUrl && (
+              <img src={printUrl} alt="Sound Print" style={{ width: 'min(100%, 960px)', maxHeight: '60vh', objectFit: 'contain' }} />
+            )
+          )}
+
+          <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap', justifyContent: 'center' }}>
+            {performance.gestureData && (
+              <button style={buttonStyle} onClick={() => navigate(`/replay/${performance.id}`)}>
+                REPLAY WITH YOUR COPY
+              </button>
+            )}
+            {(performance.isPublic || isOwner) && (
+              <button style={buttonStyle} onClick={copyLink}>
+                {copied ? 'LINK COPIED' : 'COPY LINK'}
+              </button>
+            )}
+            {performance.trackHash && (
+              <button style={buttonStyle} onClick={() => navigate(`/track/${encodeURIComponent(performance.trackHash)}`)}>
+                MORE PRINTS OF THIS TRACK
+              </button>
+            )}
+            <button style={buttonStyle} onClick={() => navigate('/')}>
+              PERFORM YOUR OWN
+            </button>
+          </div>
+
+          {isOwner && (
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: isUpdating ? 'wait' : 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={performance.isPublic}
+                disabled={isUpdating}
+                onChange={togglePublic}
+                style={{ accentColor: '#00ff66' }}
+              />
+              {performance.isPublic ? 'PUBLIC — anyone with the link can watch' : 'PRIVATE — only you can see this page'}
+            </label>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PerformancePage;
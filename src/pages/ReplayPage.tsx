@@ -0,0 +1,297 @@
+// src/pages/ReplayPage.tsx
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { useNavigate, useParams } from 'react-router-dom';
+
+import { useApp } from '../state/AppContext';
+import { useAnalytics } from '../hooks/useAnalytics';
+import audioEngine from '../audio/AudioEngine';
+import { FlowFieldInstrument } from '../components/FlowFieldInstrument';
+import { sliceAudioBuffer } from '../audio/region';
+import { decodeTrack } from '../audio/decode';
+import { fetchPerformance } from '../lib/performances';
+import type { Performance } from '../lib/performances';
+import { applyGestureToPointers, eqStateAt, eventIndexAfter, pointersAt } from '../lib/gestureLog';
+import type { GesturePointer } from '../lib/gestureLog';
+
+const readAudioFeatures = () => audioEngine.getFeatures();
+
+function formatTime(seconds: number) {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+const controlButtonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: '1px solid #00ff66',
+  color: '#00ff66',
+  fontFamily: 'monospace',
+  padding: '8px 16px',
+  cursor: 'pointer',
+};
+
+const ReplayPage: React.FC = () => {
+  const { performanceId } = useParams();
+  const navigate = useNavigate();
+  const { state } = useApp();
+  const { trackEvent } = useAnalytics();
+
+  const [performance, setPerformance] = useState<Performance | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [uploadedBuffer, setUploadedBuffer] = useState<AudioBuffer | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [pointers, setPointers] = useState<GesturePointer[]>([]);
+
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const cursorRef = useRef(0);
+  const pointersRef = useRef(new Map<number, GesturePointer>());
+
+  const log = performance?.gestureData ?? null;
+
+  // Reuse the decoded track from this session when it is the one that was played
+  const sessionBuffer =
+    performance && state.audioBuffer && state.file?.name === performance.trackName ? state.audioBuffer : null;
+  const fullBuffer = uploadedBuffer ?? sessionBuffer;
+  // Event times are relative to the performed region, so replay just that slice
+  const region = log?.region;
+  const trackBuffer = useMemo(
+    () => (fullBuffer && region ? sliceAudioBuffer(fullBuffer, region) : fullBuffer),
+    [fullBuffer, region]
+  );
+  // The log's duration is how much was actually performed, often less than the slice
+  const duration = trackBuffer
+    ? Math.min(trackBuffer.duration, log && log.duration > 0 ? log.duration : Infinity)
+    : log?.duration ?? 0;
+
+  // -- Lifecycle: Load Performance --
+  useEffect(() => {
+    if (!performanceId) return;
+    let cancelled = false;
+
+    fetchPerformance(performanceId).then(p => {
+      if (cancelled) return;
+      if (!p || !p.gestureData) {
+        setLoadError('This performance could not be loaded.');
+        return;
+      }
+      setPerformance(p);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [performanceId]);
+
+  useEffect(() => {
+    return () => {
+      audioEngine.stop();
+    };
+  }, []);
+
+  // -- Timeline Loop: re-drive EQ + flow field from the log --
+  useEffect(() => {
+    if (!isPlaying || !log) return;
+    let raf = 0;
+
+    const tick = () => {
+      const t = audioEngine.getPlaybackTime();
+      // Past the end of the take the EQ would just sit frozen over the rest of the slice
+      if (t >= duration) {
+        audioEngine.stop();
+        setIsPlaying(false);
+        setPosition(duration);
+        return;
+      }
+      let changed = false;
+
+      while (cursorRef.current < log.events.length && log.events[cursorRef.current].t <= t) {
+        const e = log.events[cursorRef.current++];
+        applyGestureToPointers(pointersRef.current, e);
+        if (pointersRef.current.get(e.pointer)?.down) audioEngine.setBandGain(e.band, e.row);
+        changed = true;
+      }
+
+      if (changed) setPointers(Array.from(pointersRef.current.values()));
+      setPosition(t);
+      raf = requestAnimationFrame(tick);
+    };
+
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [isPlaying, log, duration]);
+
+  // -- Transport --
+  const playFrom = useCallback(
+    async (offset: number) => {
+      if (!trackBuffer || !log) return;
+      await audioEngine.init();
+
+      // Jump the EQ and pointer straight to where the take stood at `offset`
+      audioEngine.resetEQ();
+      eqStateAt(log, offset).forEach((row, band) => {
+        if (row >= 0) audioEngine.setBandGain(band, row);
+      });
+      pointersRef.current = pointersAt(log, offset);
+      cursorRef.current = eventIndexAfter(log, offset);
+      setPointers(Array.from(pointersRef.current.values()));
+
+      audioEngine.startReplay(trackBuffer, offset, () => {
+        setIsPlaying(false);
+        setPosition(duration);
+      });
+      setPosition(offset);
+      setIsPlaying(true);
+    },
+    [trackBuffer, log, duration]
+  );
+
+  const pause = useCallback(() => {
+    const t = audioEngine.getPlaybackTime();
+    audioEngine.stop();
+    setPosition(t);
+    setIsPlaying(false);
+  }, []);
+
+  const handlePlayPause = () => {
+    if (isPlaying) {
+      pause();
+      return;
+    }
+    const from = position >= duration ? 0 : position;
+    playFrom(from);
+    trackEvent('replay_start', { performanceId, from });
+  };
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const t = Math.min(duration, Math.max(0, Number(e.target.value)));
+    if (isPlaying) playFrom(t);
+    else setPosition(t);
+  };
+
+  const handleTrackFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+
+    setIsDecoding(true);
+    try {
+      await audioEngine.init();
+      setUploadedBuffer((await decodeTrack(file)).buffer);
+    } catch (err) {
+      console.error('Error decoding audio:', err);
+      trackEvent('replay_decode_error');
+      alert("This file couldn't be decoded on your device. Try a different MP3 or standard audio file.");
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  const messageStyle: React.CSSProperties = {
+    position: 'absolute',
+    inset: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '1rem',
+    zIndex: 20,
+    color: '#00ff66',
+    fontFamily: 'monospace',
+    textAlign: 'center',
+    padding: '1rem',
+  };
+
+  return (
+    <div
+      style={{
+        width: '100vw',
+        height: '100dvh',
+        background: '#050810',
+        position: 'relative',
+        overflow: 'hidden',
+      }}
+    >
+      <Canvas
+        dpr={[1, 2]}
+        gl={{ antialias: false, alpha: false }}
+        orthographic
+        camera={{ zoom: 1, position: [0, 0, 1] }}
+        style={{ position: 'absolute', inset: 0 }}
+      >
+        <FlowFieldInstrument pointers={pointers} countdownProgress={0} getAudioFeatures={readAudioFeatures} />
+      </Canvas>
+
+      {loadError && (
+        <div style={messageStyle}>
+          <div>{loadError}</div>
+          <button style={controlButtonStyle} onClick={() => navigate('/')}>
+            HOME
+          </button>
+        </div>
+      )}
+
+      {!loadError && !performance && <div style={messageStyle}>LOADING PERFORMANCE…</div>}
+
+      {performance && !trackBuffer && (
+        <div style={{ ...messageStyle, backgroundColor: 'rgba(0,0,0,0.8)' }}>
+          <div>LOAD THE TRACK TO REPLAY THIS RITUAL</div>
+          <div style={{ fontSize: '0.75rem', opacity: 0.8 }}>{performance.trackName}</div>
+          <button
+            style={controlButtonStyle}
+            disabled={isDecoding}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {isDecoding ? 'DECODING AUDIO…' : 'CHOOSE FILE'}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".mp3,audio/mpeg,audio/mp3,.wav,audio/wav,.m4a,audio/x-m4a,audio/*"
+            onChange={handleTrackFile}
+            style={{ display: 'none' }}
+          />
+        </div>
+      )}
+
+      {performance && trackBuffer && (
+        <div
+          style={{
+            position: 'absolute',
+            left: 0,
+            right: 0,
+            bottom: 0,
+            zIndex: 20,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '12px',
+            padding: '12px 16px',
+            background: 'linear-gradient(transparent, rgba(0,0,0,0.8))',
+            color: '#00ff66',
+            fontFamily: 'monospace',
+          }}
+        >
+          <button style={controlButtonStyle} onClick={handlePlayPause}>
+            {isPlaying ? 'PAUSE' : 'PLAY'}
+          </button>
+          <span>{formatTime(position)}</span>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.01}
+            value={Math.min(position, duration)}
+            onChange={handleSeek}
+            aria-label="Replay position"
+            aria-valuetext={`${formatTime(position)} of ${formatTime(duration)}`}
+            style={{ flex: 1, accentColor: '#00ff66' }}
+          />
+          <span>{formatTime(duration)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReplayPage;
@@ -4,6 +4,18 @@ import { useApp } from '../state/AppContext';
 import { useAnalytics } from '../hooks/useAnalytics';
 import { supabase } from '../lib/supabaseClient';
 import { claimRitualArtifact, MANIFOLD_NFT_URL } from '../lib/manifold';
+import { toEQAutomation } from '../lib/gestureLog';
+import audioEngine from '../audio/AudioEngine';
+import { AUDIO_EXPORT_FORMATS } from '../audio/encoders/formats';
+import { sliceAudioBuffer } from '../audio/region';
+import type { AudioExportFormat } from '../audio/encoders/formats';
+import { isMp4, toMp4 } from '../lib/mp4Export';
+import { deleteBlob, loadBlob, saveBlob } from '../lib/localLibrary';
+import { downloadBlob } from '../lib/download';
+import { SculptureView } from '../components/SculptureView';
+import { pixelsToPng, posterPrintSizeForDevice, withPngMetadata } from '../lib/soundPrint';
+import type { PosterPrint } from '../lib/soundPrint';
+import { renderPosterPrint } from '../lib/printRenderer';
 
 // Assets
 import loggedOutSkin from '../assets/result-logged-out.webp';
@@ -16,68 +28,13 @@ import prize6 from '../assets/prize-6.webp';
 
 import './ResultPage.css';
 
-/** -------- IndexedDB helpers -------- */
-const DB_NAME = 'G4BU5_DB';
-const STORE_NAME = 'blobs';
-const DB_VERSION = 1;
-
-function openDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const req = indexedDB.open(DB_NAME, DB_VERSION);
-    req.onupgradeneeded = () => {
-      const db = req.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) db.createObjectStore(STORE_NAME);
-    };
-    req.onsuccess = () => resolve(req.result);
-    req.onerror = () => reject(req.error);
-  });
-}
-
-async function saveBlob(key: string, blob: Blob): Promise<void> {
-  const db = await openDB();
-  const tx = db.transaction(STORE_NAME, 'readwrite');
-  tx.objectStore(STORE_NAME).put(blob, key);
-
-  await new Promise((resolve, reject) => {
-    tx.oncomplete = resolve;
-    tx.onerror = () => reject(tx.error);
-  });
-
-  db.close();
-}
-
-async function loadBlob(key: string): Promise<Blob | null> {
-  const db = await openDB();
-  try {
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORE_NAME, 'readonly');
-      const req = tx.objectStore(STORE_NAME).get(key);
-      req.onsuccess = () => resolve((req.result as Blob) ?? null);
-      req.onerror = () => reject(req.error);
-    });
-  } finally {
-    db.close();
-  }
-}
-
-async function deleteBlob(key: string): Promise<void> {
-  const db = await openDB();
-  const tx = db.transaction(STORE_NAME, 'readwrite');
-  tx.objectStore(STORE_NAME).delete(key);
-  await new Promise((resolve, reject) => {
-    tx.oncomplete = resolve;
-    tx.onerror = () => reject(tx.error);
-  });
-  db.close();
-}
-
 const RECOVERY_BLOB_KEY = 'res_recovery_blob';
 const RECOVERY_PRINT_KEY = 'res_recovery_print';
 
 // ✅ must match AppContext
 const ALLOW_RECOVERY_KEY = 'g4m3_allow_recovery_v1';
 
-type ResultView = 'summary' | 'slots' | 'prize-0' | 'prize-3' | 'prize-6' | 'hub';
+type ResultView = 'summary' | 'slots' | 'prize-0' | 'prize-3' | 'prize-6' | 'hub' | 'sculpture';
 
 type StreakState = {
   day: number;
@@ -125,10 +82,11 @@ const ResultPage: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
 
-  const { state, ritual, auth, signOut, reset, signInWithDiscord, signInWithGoogle } = useApp();
+  const { state, ritual, auth, signOut, reset, signInWithDiscord, signInWithGoogle, savePerformance } = useApp();
   const { trackEvent } = useAnalytics();
 
   const navigationGuard = useRef(false);
+  const performanceSavedRef = useRef(false);
 
   const [view, setView] = useState<ResultView>('summary');
   const [recoveredPrint, setRecoveredPrint] = useState<string | null>(null);
@@ -137,6 +95,17 @@ const ResultPage: React.FC = () => {
   const [loadingStreak, setLoadingStreak] = useState(false);
   const [claiming, setClaiming] = useState(false);
   const [checkoutBusy, setCheckoutBusy] = useState(false);
+  const [savedPerformanceId, setSavedPerformanceId] = useState<string | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<AudioExportFormat | null>(null);
+  const renderedTakeRef = useRef<AudioBuffer | null>(null);
+  const renderedPrintRef = useRef<PosterPrint | null>(null);
+  const [renderingPrint, setRenderingPrint] = useState(false);
+  // Each view's (visually hidden) heading; focused when the view changes
+  const headingRef = useRef<HTMLHeadingElement | null>(null);
+  const [videoProgress, setVideoProgress] = useState<number | null>(null);
+  const [syncProgress, setSyncProgress] = useState<number | null>(null);
+  const [syncFailed, setSyncFailed] = useState(false);
+  const [syncAttempt, setSyncAttempt] = useState(0);
 
   // Confirmation banner states
   const [isConfirmed, setIsConfirmed] = useState(false);
@@ -420,6 +389,11 @@ const ResultPage: React.FC = () => {
     };
   }, [auth.user?.id, fetchStreak]);
 
+  // Screen readers start over at the new view rather than wherever focus was
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, [view, auth.isLoading]);
+
   // Reveal timers
   useEffect(() => {
     if (view.startsWith('prize-')) {
@@ -468,6 +442,24 @@ const ResultPage: React.FC = () => {
   }, [auth.user?.id, streak.subscriptionActive, streak.day]);
 
   const effectiveBlob = state.recordingBlob ?? recoveredBlob ?? null;
+
+  // Save the take (gesture log + recording) once we know who performed it
+  useEffect(() => {
+    if (!auth.user?.id || !ritual.gestureLog || !effectiveBlob || performanceSavedRef.current) return;
+    performanceSavedRef.current = true;
+    savePerformance(ritual.gestureLog, state.file?.name ?? 'untitled', state.fingerprint, effectiveBlob, setSyncProgress)
+      .then(id => setSavedPerformanceId(id))
+      .catch(() => setSyncFailed(true))
+      .finally(() => setSyncProgress(null));
+  }, [auth.user?.id, ritual.gestureLog, effectiveBlob, state.file?.name, state.fingerprint, savePerformance, syncAttempt]);
+
+  const retrySync = useCallback(() => {
+    performanceSavedRef.current = false;
+    setSyncFailed(false);
+    setSyncAttempt(n => n + 1);
+    trackEvent('sync_retry');
+  }, [trackEvent]);
+
   const currentPrint = ritual?.soundPrintDataUrl || recoveredPrint;
 
   const handleSocialLogin = useCallback(
@@ -495,22 +487,95 @@ const ResultPage: React.FC = () => {
     [state.recordingBlob, ritual, trackEvent, signInWithDiscord, signInWithGoogle]
   );
 
-  const downloadAndSpin = useCallback(() => {
+  const downloadAndSpin = useCallback(async () => {
     if (!effectiveBlob) {
       alert('No recording found. Please try the ritual again.');
       return;
     }
-    const url = URL.createObjectURL(effectiveBlob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `4B4KU5-session-${Date.now()}.webm`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    trackEvent('download_and_spin');
+    if (videoProgress !== null) return;
+
+    // Hand out MP4 whenever we can; the raw WebM is the last resort
+    let video = effectiveBlob;
+    if (!isMp4(video)) {
+      setVideoProgress(0);
+      try {
+        video = await toMp4(video, setVideoProgress);
+      } catch (e) {
+        console.warn('MP4 conversion failed, downloading WebM:', e);
+        trackEvent('mp4_conversion_failed');
+      } finally {
+        setVideoProgress(null);
+      }
+    }
+
+    downloadBlob(video, `4B4KU5-session-${Date.now()}.${isMp4(video) ? 'mp4' : 'webm'}`);
+    trackEvent('download_and_spin', { format: isMp4(video) ? 'mp4' : 'webm' });
     setView('slots');
-  }, [effectiveBlob, trackEvent]);
+  }, [effectiveBlob, videoProgress, trackEvent]);
+
+  // Lossless audio-only export: re-render the take offline from the gesture log
+  const canExportAudio = !!state.audioBuffer && !!ritual.gestureLog;
+
+  const downloadAudio = useCallback(
+    async (format: AudioExportFormat) => {
+      if (!state.audioBuffer || !ritual.gestureLog || exportingFormat) return;
+      setExportingFormat(format);
+      try {
+        if (!renderedTakeRef.current) {
+          // Only what was performed: a timed ritual usually stops before the region does
+          const { region, duration } = ritual.gestureLog;
+          const start = region?.start ?? 0;
+          const end = region?.end ?? state.audioBuffer.duration;
+          const performed = { start, end: duration > 0 ? Math.min(end, start + duration) : end };
+          renderedTakeRef.current = await audioEngine.renderOffline(
+            sliceAudioBuffer(state.audioBuffer, performed),
+            toEQAutomation(ritual.gestureLog)
+          );
+        }
+        const option = AUDIO_EXPORT_FORMATS[format];
+        downloadBlob(option.encode(renderedTakeRef.current), `4B4KU5-session-${Date.now()}.${option.extension}`);
+        trackEvent('download_audio', { format });
+      } catch (e) {
+        console.error('Audio export failed:', e);
+        alert('Failed to export audio. Please try again.');
+      } finally {
+        setExportingFormat(null);
+      }
+    },
+    [state.audioBuffer, ritual.gestureLog, exportingFormat, trackEvent]
+  );
+
+  const downloadPosterPrint = useCallback(async () => {
+    const source = ritual.posterPrint;
+    if (!source || !ritual.gestureLog || renderingPrint) return;
+    setRenderingPrint(true);
+    try {
+      // Heavy (a full replay at poster size), so only on request and only once
+      if (!renderedPrintRef.current) {
+        const size = posterPrintSizeForDevice();
+        const pixels = await renderPosterPrint(ritual.gestureLog, size.width, size.height);
+        renderedPrintRef.current = { ...source, png: await pixelsToPng(pixels), width: pixels.width, height: pixels.height };
+      }
+      const print = renderedPrintRef.current;
+      // Display name only; an email address has no business inside a shared image
+      const meta = auth.user?.user_metadata;
+      const author = (meta?.full_name || meta?.name || meta?.user_name || '') as string;
+      const png = await withPngMetadata(print.png, {
+        Title: print.trackName,
+        Author: author,
+        'Creation Time': print.createdAt,
+        Software: '4B4KU5 ritual',
+        Description: `Sound Print, ${print.width}×${print.height}`,
+      });
+      downloadBlob(png, `4B4KU5-print-${Date.parse(print.createdAt)}.png`);
+      trackEvent('download_poster_print', { width: print.width, height: print.height });
+    } catch (e) {
+      console.error('Poster print export failed:', e);
+      alert('Failed to export the print. Please try again.');
+    } finally {
+      setRenderingPrint(false);
+    }
+  }, [ritual.posterPrint, ritual.gestureLog, renderingPrint, auth.user, trackEvent]);
 
   const handleClaim = useCallback(async () => {
     if (!auth.user?.id) return;
@@ -620,6 +685,12 @@ const ResultPage: React.FC = () => {
     return `DAY ${streak.day} OF 6: RETURN TOMORROW TO STRENGTHEN THE SIGNAL.`;
   }, [streak, loadingStreak, view]);
 
+  const viewHeading = (text: string) => (
+    <h1 ref={headingRef} tabIndex={-1} className="sr-only">
+      {text}
+    </h1>
+  );
+
   const renderPrizeScreen = (tier: '6' | '3' | '0') => {
     const imgSrc = tier === '6' ? prize6 : tier === '3' ? prize3 : prize0;
 
@@ -637,7 +708,8 @@ const ResultPage: React.FC = () => {
     return (
       <div className="res-page-root" onClick={handleClick} style={{ cursor: canProceed && !showClaimBtn ? 'pointer' : 'default' }}>
         <div className="res-machine-container">
-          <img src={imgSrc} className="res-background-image" alt="Prize" />
+          {viewHeading(textData ? textData.title : 'Your reward')}
+          <img src={imgSrc} className="res-background-image" alt="" />
 
           {tier === '0' && dayText && <div className="prize-shelf-text legacy">{dayText}</div>}
 
@@ -659,7 +731,17 @@ const ResultPage: React.FC = () => {
                 </div>
               )}
 
-              <div className="sacred-cta">{checkoutBusy ? 'OPENING CHECKOUT...' : textData.cta}</div>
+              <button
+                type="button"
+                className="sacred-cta"
+                disabled={!canProceed || checkoutBusy}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleClick();
+                }}
+              >
+                {checkoutBusy ? 'OPENING CHECKOUT...' : textData.cta}
+              </button>
             </div>
           )}
 
@@ -675,7 +757,8 @@ const ResultPage: React.FC = () => {
               >
                 {claiming ? 'OPENING PORTAL...' : 'CLAIM ARTIFACT'}
               </button>
-              <div
+              <button
+                type="button"
                 className="claim-subtext"
                 onClick={(e) => {
                   e.stopPropagation();
@@ -683,11 +766,22 @@ const ResultPage: React.FC = () => {
                 }}
               >
                 or return to hub
-              </div>
+              </button>
             </div>
           )}
 
-          {canProceed && !showClaimBtn && !textData && <div className="tap-continue-hint">Tap to continue</div>}
+          {canProceed && !showClaimBtn && !textData && (
+            <button
+              type="button"
+              className="tap-continue-hint"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleClick();
+              }}
+            >
+              Tap to continue
+            </button>
+          )}
         </div>
       </div>
     );
@@ -696,7 +790,7 @@ const ResultPage: React.FC = () => {
   if (auth.isLoading && !authStuckGuard) {
     return (
       <div className="res-page-root">
-        <div className="loading-spinner">SYNCING ASTRAL SIGNAL...</div>
+        <div className="loading-spinner" role="status">SYNCING ASTRAL SIGNAL...</div>
       </div>
     );
   }
@@ -707,7 +801,8 @@ const ResultPage: React.FC = () => {
     return (
       <div className={`res-page-root ${isConfirmed ? 'confirmed-state' : ''}`}>
         <div className="res-machine-container">
-          <img src={steamSlotsHub} className="res-background-image" alt="Steam Slots Hub" />
+          {viewHeading('Artifact hub')}
+          <img src={steamSlotsHub} className="res-background-image" alt="" />
 
           {dayText && <div className="prize-shelf-text legacy">{dayText}</div>}
 
@@ -721,7 +816,7 @@ const ResultPage: React.FC = () => {
 
           <div className="res-interactive-layer">
             {isFinalizing && !isConfirmed && (
-              <div className="sacred-confirmation-overlay">
+              <div className="sacred-confirmation-overlay" role="status">
                 <div className="confirmation-sigil" />
                 <h1>FINALIZING</h1>
                 <p>
@@ -745,21 +840,21 @@ const ResultPage: React.FC = () => {
                   onClick={() =>
                     window.open('https://manifold.xyz/@r41nb0w/id/4078311664', '_blank', 'noopener,noreferrer')
                   }
-                  aria-label="001"
+                  aria-label="Artifact 001 on Manifold (opens in a new tab)"
                 />
                 <button
                   className="hs hs-hub-center"
                   onClick={() =>
                     window.open('https://manifold.xyz/@r41nb0w/id/4078321904', '_blank', 'noopener,noreferrer')
                   }
-                  aria-label="002"
+                  aria-label="Artifact 002 on Manifold (opens in a new tab)"
                 />
                 <button
                   className="hs hs-hub-right"
                   onClick={() =>
                     window.open('https://manifold.xyz/@r41nb0w/id/4078434544', '_blank', 'noopener,noreferrer')
                   }
-                  aria-label="003"
+                  aria-label="Artifact 003 on Manifold (opens in a new tab)"
                 />
               </>
             )}
@@ -775,7 +870,8 @@ const ResultPage: React.FC = () => {
     return (
       <div className="res-page-root">
         <div className="res-machine-container">
-          <img src={ritualSlots} className="res-background-image" alt="Slot Ritual" />
+          {viewHeading('Choose your reward')}
+          <img src={ritualSlots} className="res-background-image" alt="" />
           <div className="res-interactive-layer">
             <button className="hs hs-slot-left" onClick={() => setView('prize-0')} aria-label="$0 Reward" />
             <button className="hs hs-slot-center" onClick={() => setView('prize-6')} aria-label="$6 Subscription" />
@@ -786,6 +882,19 @@ const ResultPage: React.FC = () => {
     );
   }
 
+  if (view === 'sculpture') {
+    return (
+      <>
+        {viewHeading('EQ sculpture')}
+        <SculptureView
+          finalEQState={ritual.finalEQState}
+          gestureLog={ritual.gestureLog}
+          onBack={() => setView('summary')}
+        />
+      </>
+    );
+  }
+
   if (view === 'prize-0') return renderPrizeScreen('0');
   if (view === 'prize-3') return renderPrizeScreen('3');
   if (view === 'prize-6') return renderPrizeScreen('6');
@@ -794,6 +903,7 @@ const ResultPage: React.FC = () => {
   return (
     <div className="res-page-root">
       <div className="res-machine-container">
+        {viewHeading('Ritual complete')}
         <img
           src={isLoggedIn ? loggedInSkin : loggedOutSkin}
           className="res-background-image"
@@ -810,6 +920,27 @@ const ResultPage: React.FC = () => {
               <button className="hs hs-home-li" onClick={goHome} aria-label="Return Home" />
               <button className="hs hs-download" onClick={downloadAndSpin} aria-label="Download & Spin" />
               <button className="hs hs-signout-li" onClick={handleSignOut} aria-label="Sign Out" />
+              {videoProgress !== null && (
+                <div className="res-video-progress" role="status">PREPARING MP4… {Math.round(videoProgress * 100)}%</div>
+              )}
+              {canExportAudio && (
+                <div className="res-audio-exports">
+                  <span>AUDIO ONLY:</span>
+                  {(Object.keys(AUDIO_EXPORT_FORMATS) as AudioExportFormat[]).map(format => (
+                    <button key={format} onClick={() => downloadAudio(format)} disabled={!!exportingFormat}>
+                      {exportingFormat === format ? 'RENDERING…' : AUDIO_EXPORT_FORMATS[format].label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {syncProgress !== null && (
+                <div className="res-sync-status" role="status">SYNCING TO CLOUD… {Math.round(syncProgress * 100)}%</div>
+              )}
+              {syncFailed && (
+                <div className="res-sync-status res-sync-failed" role="alert">
+                  CLOUD SYNC FAILED. <button onClick={retrySync}>RETRY</button>
+                </div>
+              )}
             </>
           ) : (
             <>
@@ -818,6 +949,31 @@ const ResultPage: React.FC = () => {
               <button className="hs hs-google" onClick={() => handleSocialLogin('google')} aria-label="Login with Google" />
             </>
           )}
+          {(savedPerformanceId || ritual.finalEQState.length > 0) && (
+            <div className="res-replay-link">
+              {isLoggedIn && savedPerformanceId && (
+                <>
+                  <button onClick={() => navigate(`/replay/${savedPerformanceId}`)}>REPLAY THIS RITUAL</button>
+                  <button onClick={() => navigate(`/p/${savedPerformanceId}`)}>SHARE PAGE</button>
+                </>
+              )}
+              {ritual.posterPrint && ritual.gestureLog && (
+                <button onClick={downloadPosterPrint} disabled={renderingPrint}>
+                  {renderingPrint ? 'RENDERING PRINT…' : 'POSTER PRINT'}
+                </button>
+              )}
+              {ritual.finalEQState.length > 0 && (
+                <button
+                  onClick={() => {
+                    trackEvent('sculpture_open');
+                    setView('sculpture');
+                  }}
+                >
+                  EQ SCULPTURE
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,211 @@
+// src/pages/TrackGalleryPage.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+
+import { useApp } from '../state/AppContext';
+import { useAnalytics } from '../hooks/useAnalytics';
+import { fetchLikedPerformanceIds, fetchTrackPerformances, setPerformanceLiked } from '../lib/performances';
+import type { Performance, TrackGallerySort } from '../lib/performances';
+import { signedUrlFor } from '../lib/cloudStorage';
+
+type GalleryItem = { performance: Performance; printUrl: string | null };
+
+const buttonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: '1px solid #00ff66',
+  color: '#00ff66',
+  fontFamily: 'monospace',
+  padding: '6px 10px',
+  cursor: 'pointer',
+};
+
+const activeButtonStyle: React.CSSProperties = { ...buttonStyle, background: '#00ff66', color: '#000' };
+
+interface PrintCardProps {
+  item: GalleryItem;
+  liked: boolean;
+  canLike: boolean;
+  onLike: (performance: Performance) => void;
+  onOpen: (performance: Performance) => void;
+}
+
+/** Sound Print tile; the recording is fetched and played muted while hovered (or tapped on touch). */
+const PrintCard: React.FC<PrintCardProps> = ({ item, liked, canLike, onLike, onOpen }) => {
+  const { performance, printUrl } = item;
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const requestedRef = useRef(false);
+
+  const startPreview = () => {
+    if (!performance.recordingPath) return;
+    setIsPlaying(true);
+    if (requestedRef.current) return;
+    requestedRef.current = true;
+    signedUrlFor(performance.recordingPath).then(setVideoUrl);
+  };
+
+  return (
+    <div style={{ border: '1px solid rgba(0, 255, 102, 0.4)', padding: '8px' }}>
+      <div
+        onPointerEnter={e => e.pointerType === 'mouse' && startPreview()}
+        onPointerLeave={() => setIsPlaying(false)}
+        onClick={() => (isPlaying ? onOpen(performance) : startPreview())}
+        style={{ position: 'relative', aspectRatio: '16 / 9', background: '#000', marginBottom: '8px', cursor: 'pointer' }}
+      >
+        {printUrl && (
+          <img src={printUrl} alt="Sound Print" style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+        )}
+        {isPlaying && videoUrl && (
+          <video
+            src={videoUrl}
+            autoPlay
+            muted
+            loop
+            playsInline
+            style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', objectFit: 'cover' }}
+          />
+        )}
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '6px' }}>
+        <div style={{ fontSize: '0.75rem', opacity: 0.7 }}>{new Date(performance.createdAt).toLocaleDateString()}</div>
+        <button
+          style={liked ? activeButtonStyle : buttonStyle}
+          disabled={!canLike}
+          title={canLike ? undefined : 'Sign in to like'}
+          onClick={() => onLike(performance)}
+        >
+          ♥ {performance.likeCount}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const TrackGalleryPage: React.FC = () => {
+  const { trackHash } = useParams();
+  const navigate = useNavigate();
+  const { auth } = useApp();
+  const { trackEvent } = useAnalytics();
+  const userId = auth.user?.id;
+
+  const [sort, setSort] = useState<TrackGallerySort>('newest');
+  const [items, setItems] = useState<GalleryItem[] | null>(null);
+  const [likedIds, setLikedIds] = useState<Set<string>>(new Set());
+
+  // -- Lifecycle: Load Gallery --
+  useEffect(() => {
+    if (!trackHash) return;
+    let cancelled = false;
+
+    fetchTrackPerformances(trackHash, sort).then(async performances => {
+      const loaded = await Promise.all(
+        performances.map(async performance => ({
+          performance,
+          printUrl: performance.soundPrintPath
+            ? await signedUrlFor(performance.soundPrintPath)
+            : performance.thumbnailDataUrl,
+        }))
+      );
+      const liked = userId
+        ? await fetchLikedPerformanceIds(userId, performances.map(p => p.id))
+        : new Set<string>();
+      if (cancelled) return;
+      setItems(loaded);
+      setLikedIds(liked);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trackHash, sort, userId]);
+
+  const toggleLike = async (performance: Performance) => {
+    if (!userId) return;
+    const like = !likedIds.has(performance.id);
+    if (!(await setPerformanceLiked(performance.id, userId, like))) return;
+
+    setLikedIds(prev => {
+      const next = new Set(prev);
+      if (like) next.add(performance.id);
+      else next.delete(performance.id);
+      return next;
+    });
+    setItems(
+      prev =>
+        prev?.map(item =>
+          item.performance.id === performance.id
+            ? { ...item, performance: { ...performance, likeCount: performance.likeCount + (like ? 1 : -1) } }
+            : item
+        ) ?? null
+    );
+    trackEvent(like ? 'performance_liked' : 'performance_unliked', { performanceId: performance.id });
+  };
+
+  const trackName = items?.[0]?.performance.trackName;
+
+  return (
+    <div
+      style={{
+        width: '100vw',
+        height: '100dvh',
+        background: '#050810',
+        color: '#00ff66',
+        fontFamily: 'monospace',
+        overflowY: 'auto',
+        padding: '24px 16px',
+        boxSizing: 'border-box',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          flexWrap: 'wrap',
+          gap: '12px',
+          marginBottom: '24px',
+        }}
+      >
+        <div>
+          <div style={{ fontSize: '1.25rem' }}>{trackName ?? 'SOUND PRINTS'}</div>
+          {items && (
+            <div style={{ fontSize: '0.75rem', opacity: 0.7 }}>
+              {items.length} public ritual{items.length === 1 ? '' : 's'} of this track
+            </div>
+          )}
+        </div>
+        <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+          <button style={sort === 'newest' ? activeButtonStyle : buttonStyle} onClick={() => setSort('newest')}>
+            NEWEST
+          </button>
+          <button style={sort === 'liked' ? activeButtonStyle : buttonStyle} onClick={() => setSort('liked')}>
+            MOST LIKED
+          </button>
+          <button style={buttonStyle} onClick={() => navigate('/')}>
+            PERFORM YOUR OWN
+          </button>
+        </div>
+      </div>
+
+      {!items && <div>LOADING…</div>}
+      {items && items.length === 0 && <div>No public rituals of this track yet.</div>}
+
+      {items && items.length > 0 && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))', gap: '16px' }}>
+          {items.map(item => (
+            <PrintCard
+              key={item.performance.id}
+              item={item}
+              liked={likedIds.has(item.performance.id)}
+              canLike={!!userId}
+              onLike={toggleLike}
+              onOpen={performance => navigate(`/p/${performance.id}`)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrackGalleryPage;
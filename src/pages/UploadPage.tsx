@@ -1,16 +1,60 @@
 // src/pages/UploadPage.tsx
-import React, { useCallback, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useApp } from '../state/AppContext';
 import { audioEngine } from '../audio/AudioEngine'; // named import, matches your AudioEngine.ts
 import { useAnalytics } from '../hooks/useAnalytics';
+import { RegionPicker } from '../components/RegionPicker';
+import { DEFAULT_REGION_SECONDS } from '../audio/region';
+import { AudioExtractionError, isVideoFile } from '../audio/demux';
+import type { DecodedTrack } from '../audio/decode';
+import type { AudioRegion } from '../audio/region';
+
+/** Upload failure shown in place of the picker until dismissed. */
+function describeDecodeError(error: unknown, file: File): string {
+  if (error instanceof AudioExtractionError) return error.message;
+  const ext = file.name.includes('.') ? file.name.split('.').pop()!.toUpperCase() : null;
+  return `${ext ? `This ${ext} file` : 'This file'} couldn't be decoded on your device. Try an MP3, WAV or M4A file.`;
+}
+
+const cornerButtonStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: '16px',
+  zIndex: 5,
+  background: 'rgba(0,0,0,0.5)',
+  border: '1px solid #00ff66',
+  color: '#00ff66',
+  fontFamily: 'monospace',
+  padding: '6px 12px',
+  cursor: 'pointer',
+};
+
+/** Tells people when a long upload was cut down to fit in memory. */
+function describeDecodeLimits({ buffer, sourceDuration, trimmed, downsampled }: DecodedTrack): string | null {
+  const minutes = (seconds: number) => `${Math.round(seconds / 60)} min`;
+  if (trimmed) {
+    return `This track is ${minutes(sourceDuration)} long; only the first ${minutes(buffer.duration)} were loaded.`;
+  }
+  if (downsampled) return 'This track is long, so it was loaded at reduced audio quality to fit in memory.';
+  return null;
+}
 
 export const UploadPage: React.FC = () => {
-  const { setFile, setAudioBuffer, setRitualPhase } = useApp();
+  const { state, decodeFile, setRegion, setRitualPhase, reset } = useApp();
   const { trackEvent } = useAnalytics();
   const navigate = useNavigate();
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Tracks longer than a ritual go through the region picker first
+  const [pickingFrom, setPickingFrom] = useState<AudioBuffer | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [limitNotice, setLimitNotice] = useState<string | null>(null);
+  const retryButtonRef = useRef<HTMLButtonElement | null>(null);
+
+  // The failure replaces the picker, so focus moves to its way out
+  useEffect(() => {
+    if (uploadError) retryButtonRef.current?.focus();
+  }, [uploadError]);
 
   const handleFileUpload = useCallback(
     async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -21,7 +65,7 @@ export const UploadPage: React.FC = () => {
       event.target.value = '';
 
       setIsProcessing(true);
-      setFile(file);
+      setUploadError(null);
 
       // log the attempt immediately (shows up even if decode fails)
       trackEvent('upload_attempt', {
@@ -35,36 +79,51 @@ export const UploadPage: React.FC = () => {
       try {
         // IMPORTANT for iOS: initialize / resume AudioContext right after the user action
         await audioEngine.init();
-        const ctx = audioEngine.getAudioContext();
-        if (!ctx) throw new Error('AudioContext not available');
 
-        const arrayBuffer = await file.arrayBuffer();
-        const audioBuffer = await ctx.decodeAudioData(arrayBuffer);
+        const decoded = await decodeFile(file);
+        const audioBuffer = decoded.buffer;
 
         trackEvent('upload_success', {
           duration: audioBuffer.duration,
+          sourceDuration: decoded.sourceDuration,
+          trimmed: decoded.trimmed,
+          downsampled: decoded.downsampled,
           fileName: file.name,
           fileType: file.type,
         });
 
-        setAudioBuffer(audioBuffer);
+        setLimitNotice(describeDecodeLimits(decoded));
+        if (audioBuffer.duration > DEFAULT_REGION_SECONDS) {
+          setPickingFrom(audioBuffer);
+          setIsProcessing(false);
+          return;
+        }
         setRitualPhase('ritual');
         navigate('/instrument');
       } catch (error: any) {
         console.error('Error decoding audio:', error);
         trackEvent('upload_error', {
-          error: error?.message || 'decode_failed',
+          error: error instanceof AudioExtractionError ? error.code : error?.message || 'decode_failed',
           fileType: file.type,
+          container: error instanceof AudioExtractionError ? error.container : null,
+          codec: error instanceof AudioExtractionError ? error.codec : null,
         });
-        alert(
-          "This file couldn't be decoded on your device. Try a different MP3 or standard audio file."
-        );
+        setUploadError(describeDecodeError(error, file));
         setIsProcessing(false);
       }
     },
-    [setFile, setAudioBuffer, setRitualPhase, navigate, trackEvent]
+    [decodeFile, setRitualPhase, navigate, trackEvent]
   );
 
+  const handleRegionConfirm = (region: AudioRegion) => {
+    const isWholeTrack = pickingFrom && region.start <= 0 && region.end >= pickingFrom.duration;
+    setRegion(isWholeTrack ? null : region);
+    trackEvent('region_selected', { start: region.start, end: region.end });
+    setPickingFrom(null);
+    setRitualPhase('ritual');
+    navigate('/instrument');
+  };
+
   const triggerFilePicker = () => {
     if (isProcessing) return; // don't let them start another while decoding
     fileInputRef.current?.click();
@@ -84,9 +143,11 @@ export const UploadPage: React.FC = () => {
         cursor: isProcessing ? 'wait' : 'default',
       }}
     >
+      <h1 className="sr-only">4B4KU5 ritual: upload a track</h1>
       {/* Processing overlay so testers know something is happening */}
       {isProcessing && (
         <div
+          role="status"
           style={{
             position: 'absolute',
             inset: 0,
@@ -102,18 +163,111 @@ export const UploadPage: React.FC = () => {
             padding: '1rem',
           }}
         >
-          <div style={{ marginBottom: '0.5rem' }}>DECODING AUDIO…</div>
+          <div style={{ marginBottom: '0.5rem' }}>
+            {state.file && isVideoFile(state.file) ? 'EXTRACTING AUDIO…' : 'DECODING AUDIO…'}
+          </div>
+          <div
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round((state.decodeProgress ?? 0) * 100)}
+            style={{ width: 'min(70vw, 320px)', height: '6px', border: '1px solid #00ff66', marginBottom: '0.5rem' }}
+          >
+            <div
+              style={{
+                width: `${(state.decodeProgress ?? 0) * 100}%`,
+                height: '100%',
+                background: '#00ff66',
+                transition: 'width 0.2s linear',
+              }}
+            />
+          </div>
           <div style={{ fontSize: '0.75rem', opacity: 0.8 }}>
-            If your track is long, this can take a few seconds.
+            {state.decodeProgress
+              ? `${Math.round(state.decodeProgress * 100)}%`
+              : 'If your track is long, this can take a few seconds.'}
           </div>
         </div>
       )}
 
-      {/* Invisible click target */}
-      <div
+      {uploadError && (
+        <div
+          role="alert"
+          style={{
+            position: 'absolute',
+            inset: 0,
+            backgroundColor: 'rgba(0,0,0,0.85)',
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: '1rem',
+            zIndex: 10,
+            color: '#00ff66',
+            fontFamily: 'monospace',
+            textAlign: 'center',
+            padding: '1rem',
+          }}
+        >
+          <div style={{ color: '#ff4d6d' }}>UPLOAD FAILED</div>
+          <div style={{ maxWidth: '480px', fontSize: '0.875rem' }}>{uploadError}</div>
+          <button
+            ref={retryButtonRef}
+            onClick={() => {
+              setUploadError(null);
+              fileInputRef.current?.click();
+            }}
+            style={{
+              background: 'transparent',
+              border: '1px solid #00ff66',
+              color: '#00ff66',
+              fontFamily: 'monospace',
+              padding: '8px 16px',
+              cursor: 'pointer',
+            }}
+          >
+            TRY ANOTHER FILE
+          </button>
+        </div>
+      )}
+
+      {pickingFrom && (
+        <RegionPicker
+          buffer={pickingFrom}
+          notice={limitNotice}
+          onConfirm={handleRegionConfirm}
+          onCancel={() => setPickingFrom(null)}
+        />
+      )}
+
+      {/* Past takes kept on this device */}
+      {!isProcessing && !pickingFrom && (
+        <button onClick={() => navigate('/library')} style={{ ...cornerButtonStyle, right: '16px' }}>
+          MY RITUALS
+        </button>
+      )}
+
+      {/* Mic / line-in instead of a file; drops any previously loaded track */}
+      {!isProcessing && !pickingFrom && (
+        <button
+          onClick={() => {
+            reset();
+            trackEvent('live_mode_open');
+            navigate('/live');
+          }}
+          style={{ ...cornerButtonStyle, left: '16px' }}
+        >
+          PLAY LIVE
+        </button>
+      )}
+
+      {/* Invisible click target over the artwork's seed; outlined when focused */}
+      <button
+        type="button"
         className="upload-hotspot"
         onClick={triggerFilePicker}
-        aria-hidden="true"
+        disabled={isProcessing}
+        aria-label="Choose a track or video to begin the ritual"
         style={{ pointerEvents: isProcessing ? 'none' : 'auto' }}
       />
 
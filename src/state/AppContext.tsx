@@ -1,13 +1,28 @@
 // src/state/AppContext.tsx
-import { createContext, useContext, useState, useCallback, useEffect } from 'react';
+import { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
 import type { ReactNode } from 'react';
 import { supabase } from '../lib/supabaseClient';
 import type { Session, AuthError } from '@supabase/supabase-js';
+import { parseGestureLog } from '../lib/gestureLog';
+import type { GestureLog } from '../lib/gestureLog';
+import type { AudioRegion } from '../audio/region';
+import { fingerprintKeys, fingerprintTrack } from '../audio/fingerprint';
+import type { TrackFingerprint } from '../audio/fingerprint';
+import { decodeTrack } from '../audio/decode';
+import type { DecodedTrack } from '../audio/decode';
+import { removeUploads, uploadResumable } from '../lib/cloudStorage';
+import type { PosterPrintSource } from '../lib/soundPrint';
 
 interface AudioState {
   file: File | null;
   audioBuffer: AudioBuffer | null;
+  /** Slice of audioBuffer chosen for the ritual; null plays the whole track. */
+  region: AudioRegion | null;
+  /** Identity of the uploaded track, computed after decode. */
+  fingerprint: TrackFingerprint | null;
   isProcessing: boolean;
+  /** 0..1 while the current file is being decoded, null otherwise. */
+  decodeProgress: number | null;
   isPlaying: boolean;
   currentTime: number;
   duration: number;
@@ -18,7 +33,10 @@ interface RitualState {
   phase: 'upload' | 'ritual' | 'capture' | 'complete';
   countdown: number;
   soundPrintDataUrl: string | null;
+  /** Set when a take ends; the poster print is rendered from the gesture log when asked for. */
+  posterPrint: PosterPrintSource | null;
   finalEQState: number[];
+  gestureLog: GestureLog | null;
   isRecording: boolean;
 }
 
@@ -36,26 +54,40 @@ interface AppContextType {
   setFile: (file: File) => void;
   setAudioFile: (file: File) => void;
   setAudioBuffer: (buffer: AudioBuffer) => void;
+  decodeFile: (file: File) => Promise<DecodedTrack>;
+  setRegion: (region: AudioRegion | null) => void;
+  setFingerprint: (fingerprint: TrackFingerprint | null) => void;
   setPlaying: (playing: boolean) => void;
   updateCurrentTime: (time: number) => void;
   setRitualPhase: (phase: RitualState['phase']) => void;
   setCountdown: (count: number) => void;
   setSoundPrint: (data: any) => void;
   captureSoundPrint: (dataUrl: string) => void;
-  saveRecording: (blob: Blob, finalEQ: number[]) => void;
+  capturePosterPrint: (print: PosterPrintSource) => void;
+  saveRecording: (blob: Blob, finalEQ: number[], gestureLog?: GestureLog | null) => void;
   reset: () => void;
   signInWithDiscord: () => Promise<void>;
   signInWithGoogle: () => Promise<void>;
   signInWithX: () => Promise<void>;
   signInWithEmail: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signOut: () => Promise<void>;
-  savePerformance: (gestureData: any, trackName: string, trackHash: string) => Promise<void>;
+  /** Resolves to the new row's id (null when signed out); rejects if an upload or the insert fails. */
+  savePerformance: (
+    gestureData: GestureLog,
+    trackName: string,
+    fingerprint: TrackFingerprint | null,
+    recording?: Blob | null,
+    onUploadProgress?: (progress01: number) => void
+  ) => Promise<string | null>;
 }
 
 const initialAudioState: AudioState = {
   file: null,
   audioBuffer: null,
+  region: null,
+  fingerprint: null,
   isProcessing: false,
+  decodeProgress: null,
   isPlaying: false,
   currentTime: 0,
   duration: 0,
@@ -66,7 +98,9 @@ const initialRitualState: RitualState = {
   phase: 'upload',
   countdown: 36,
   soundPrintDataUrl: null,
+  posterPrint: null,
   finalEQState: [],
+  gestureLog: null,
   isRecording: false,
 };
 
@@ -108,10 +142,17 @@ const POST_AUTH_REDIRECT_KEY = 'post-auth-redirect';
 // (OAuth redirect, just saved a recording/print, etc). Prevents cross-user bleed.
 const ALLOW_RECOVERY_KEY = 'g4m3_allow_recovery_v1';
 
+// How long a save waits for a fingerprint still being computed
+const FINGERPRINT_WAIT_MS = 30_000;
+
 export function AppProvider({ children }: { children: ReactNode }) {
   const [audio, setAudio] = useState<AudioState>(initialAudioState);
   const [ritual, setRitual] = useState<RitualState>(initialRitualState);
   const [auth, setAuth] = useState<AuthState>(initialAuthState);
+  // The one in-flight (or finished) decode; every page asking for the same file shares it
+  const decodeRef = useRef<{ file: File; promise: Promise<DecodedTrack> } | null>(null);
+  // Background fingerprint of the decoded file; null on failure
+  const fingerprintRef = useRef<Promise<TrackFingerprint | null> | null>(null);
 
   const restorePostAuthState = useCallback(() => {
     try {
@@ -130,6 +171,11 @@ export function AppProvider({ children }: { children: ReactNode }) {
         if (blob) setAudio(prev => ({ ...prev, recordingBlob: blob }));
       }
 
+      const fingerprint = sessionStorage.getItem('g4m3_track_fingerprint');
+      if (fingerprint) {
+        setAudio(prev => ({ ...prev, fingerprint: JSON.parse(fingerprint) }));
+      }
+
       const fileName = sessionStorage.getItem('g4m3_filename');
       if (fileName) {
         // NOTE: this is just to restore a label; actual file bytes aren't restored here.
@@ -140,6 +186,12 @@ export function AppProvider({ children }: { children: ReactNode }) {
       if (eq) {
         setRitual(prev => ({ ...prev, finalEQState: JSON.parse(eq) }));
       }
+
+      const gestures = sessionStorage.getItem('g4m3_gesture_log');
+      if (gestures) {
+        const parsed = parseGestureLog(JSON.parse(gestures));
+        if (parsed) setRitual(prev => ({ ...prev, gestureLog: parsed }));
+      }
     } catch (e) {
       console.warn('Post-auth restore failed:', e);
     }
@@ -183,15 +235,30 @@ export function AppProvider({ children }: { children: ReactNode }) {
         sessionStorage.setItem('g4m3_filename', audio.file.name);
       }
 
+      if (audio.fingerprint) {
+        sessionStorage.setItem('g4m3_track_fingerprint', JSON.stringify(audio.fingerprint));
+      }
+
       if (ritual.finalEQState?.length) {
         sessionStorage.setItem('g4m3_final_eq', JSON.stringify(ritual.finalEQState));
       }
 
+      if (ritual.gestureLog) {
+        sessionStorage.setItem('g4m3_gesture_log', JSON.stringify(ritual.gestureLog));
+      }
+
       sessionStorage.setItem(POST_AUTH_REDIRECT_KEY, '/result');
     } catch (e) {
       console.warn('Persist before OAuth failed:', e);
     }
-  }, [audio.recordingBlob, audio.file?.name, ritual.soundPrintDataUrl, ritual.finalEQState]);
+  }, [
+    audio.recordingBlob,
+    audio.file?.name,
+    audio.fingerprint,
+    ritual.soundPrintDataUrl,
+    ritual.finalEQState,
+    ritual.gestureLog,
+  ]);
 
   const signInWithDiscord = useCallback(async () => {
     setAuth(prev => ({ ...prev, error: null }));
@@ -243,6 +310,8 @@ export function AppProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const reset = useCallback(() => {
+    decodeRef.current = null;
+    fingerprintRef.current = null;
     setAudio(initialAudioState);
     setRitual(initialRitualState);
 
@@ -250,7 +319,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
       sessionStorage.removeItem('g4m3_sound_print');
       sessionStorage.removeItem('g4m3_recording_data_url');
       sessionStorage.removeItem('g4m3_filename');
+      sessionStorage.removeItem('g4m3_track_fingerprint');
       sessionStorage.removeItem('g4m3_final_eq');
+      sessionStorage.removeItem('g4m3_gesture_log');
       sessionStorage.removeItem(POST_AUTH_REDIRECT_KEY);
 
       // ✅ crucial: do not allow future restores unless explicitly set again
@@ -266,9 +337,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
     reset();
   }, [reset]);
 
-  const saveRecording = useCallback(async (blob: Blob, finalEQ: number[]) => {
+  const saveRecording = useCallback(async (blob: Blob, finalEQ: number[], gestureLog: GestureLog | null = null) => {
     setAudio(prev => ({ ...prev, recordingBlob: blob }));
-    setRitual(prev => ({ ...prev, finalEQState: finalEQ, phase: 'capture', isRecording: false }));
+    setRitual(prev => ({ ...prev, finalEQState: finalEQ, gestureLog, phase: 'capture', isRecording: false }));
 
     try {
       // ✅ mark recovery allowed because we now have something worth recovering
@@ -279,6 +350,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
         sessionStorage.setItem('g4m3_recording_data_url', dataUrl);
       }
       sessionStorage.setItem('g4m3_final_eq', JSON.stringify(finalEQ));
+      if (gestureLog) {
+        sessionStorage.setItem('g4m3_gesture_log', JSON.stringify(gestureLog));
+      }
     } catch (e) {
       console.warn('Persist recording locally failed:', e);
     }
@@ -296,21 +370,82 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
-  const savePerformance = useCallback(async (gestureData: any, trackName: string, trackHash: string) => {
+  const capturePosterPrint = useCallback((print: PosterPrintSource) => {
+    setRitual(prev => ({ ...prev, posterPrint: print }));
+  }, []);
+
+  const savePerformance = useCallback(async (
+    gestureData: GestureLog,
+    trackName: string,
+    fingerprint: TrackFingerprint | null,
+    recording: Blob | null = null,
+    onUploadProgress?: (progress01: number) => void
+  ) => {
     if (!auth.user) {
       console.error('Cannot save performance: No authenticated user.');
-      return;
+      return null;
     }
 
-    const { error } = await supabase.from('performances').insert({
-      user_id: auth.user.id,
-      track_name: trackName,
-      track_hash: trackHash,
-      gesture_data: gestureData,
-      thumbnail_data_url: ritual.soundPrintDataUrl,
-    });
+    // The fingerprint may still be computing (long track, short ritual); the row
+    // needs it to ever show up in the track's gallery, so wait for it a while
+    const fingerprintReady = fingerprint
+      ? Promise.resolve(fingerprint)
+      : Promise.race([
+          fingerprintRef.current ?? Promise.resolve(null),
+          new Promise<null>(resolve => setTimeout(() => resolve(null), FINGERPRINT_WAIT_MS)),
+        ]);
+
+    // Media goes to Storage; the row only keeps paths to it. Either everything
+    // lands or nothing does: a row without its media is worse than no row.
+    const folder = `${auth.user.id}/${crypto.randomUUID()}`;
+    let recordingPath: string | null = null;
+    let soundPrintPath: string | null = null;
+    const uploaded: string[] = [];
+    try {
+      const soundPrint = ritual.soundPrintDataUrl ? await (await fetch(ritual.soundPrintDataUrl)).blob() : null;
+      const total = (soundPrint?.size ?? 0) + (recording?.size ?? 0);
+      let sent = 0;
+      const progressFor = (size: number) => (p: number) => onUploadProgress?.(total ? (sent + p * size) / total : 1);
+
+      if (soundPrint) {
+        soundPrintPath = await uploadResumable(`${folder}/sound-print.png`, soundPrint, progressFor(soundPrint.size));
+        uploaded.push(soundPrintPath);
+        sent += soundPrint.size;
+      }
+      if (recording) {
+        const ext = recording.type.includes('mp4') ? 'mp4' : 'webm';
+        recordingPath = await uploadResumable(`${folder}/recording.${ext}`, recording, progressFor(recording.size));
+        uploaded.push(recordingPath);
+      }
+    } catch (e) {
+      console.error('Error uploading performance media:', e);
+      await removeUploads(uploaded);
+      throw e;
+    }
+
+    const trackFingerprint = await fingerprintReady;
+    const { data, error } = await supabase
+      .from('performances')
+      .insert({
+        user_id: auth.user.id,
+        track_name: trackName,
+        track_hash: trackFingerprint?.acoustic ?? '',
+        track_keys: trackFingerprint ? fingerprintKeys(trackFingerprint.acoustic) : [],
+        file_hash: trackFingerprint?.fileSha256 ?? null,
+        gesture_data: gestureData,
+        recording_path: recordingPath,
+        sound_print_path: soundPrintPath,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error saving performance:', error);
+      await removeUploads(uploaded);
+      throw new Error(`Saving performance failed: ${error.message}`);
+    }
 
-    if (error) console.error('Error saving performance:', error);
+    return (data?.id as string) ?? null;
   }, [auth.user, ritual.soundPrintDataUrl]);
 
   const setSoundPrint = useCallback((data: any) => {
@@ -318,11 +453,75 @@ export function AppProvider({ children }: { children: ReactNode }) {
   }, [captureSoundPrint]);
 
   const setFile = useCallback((file: File) => {
-    setAudio(prev => ({ ...prev, file, isProcessing: true }));
+    fingerprintRef.current = null;
+    setAudio(prev => ({ ...prev, file, fingerprint: null, isProcessing: true }));
   }, []);
 
   const setAudioBuffer = useCallback((buffer: AudioBuffer) => {
-    setAudio(prev => ({ ...prev, audioBuffer: buffer, isProcessing: false, duration: buffer.duration }));
+    setAudio(prev => ({ ...prev, audioBuffer: buffer, region: null, isProcessing: false, duration: buffer.duration }));
+  }, []);
+
+  const decodeFile = useCallback((file: File) => {
+    if (decodeRef.current?.file === file) return decodeRef.current.promise;
+
+    fingerprintRef.current = null;
+    setAudio(prev => ({ ...prev, file, fingerprint: null, isProcessing: true, decodeProgress: 0 }));
+    let shownPercent = 0;
+    const isCurrent = () => decodeRef.current?.promise === promise;
+
+    const promise = decodeTrack(file, {
+      onProgress: progress => {
+        // Chunks arrive thousands of times a second; only re-render on whole percents
+        const percent = Math.floor(progress * 100);
+        if (percent === shownPercent || !isCurrent()) return;
+        shownPercent = percent;
+        setAudio(prev => ({ ...prev, decodeProgress: progress }));
+      },
+    }).then(
+      decoded => {
+        if (!isCurrent()) return decoded;
+        const { buffer } = decoded;
+        setAudio(prev => ({
+          ...prev,
+          audioBuffer: buffer,
+          region: null,
+          isProcessing: false,
+          decodeProgress: null,
+          duration: buffer.duration,
+        }));
+
+        // Identify the track in the background; savePerformance waits for it
+        fingerprintRef.current = fingerprintTrack(buffer, file).then(
+          fingerprint => {
+            setAudio(prev => (prev.file === file ? { ...prev, fingerprint } : prev));
+            return fingerprint;
+          },
+          e => {
+            console.warn('Track fingerprinting failed:', e);
+            return null;
+          }
+        );
+        return decoded;
+      },
+      error => {
+        if (isCurrent()) {
+          decodeRef.current = null;
+          setAudio(prev => ({ ...prev, isProcessing: false, decodeProgress: null }));
+        }
+        throw error;
+      }
+    );
+
+    decodeRef.current = { file, promise };
+    return promise;
+  }, []);
+
+  const setRegion = useCallback((region: AudioRegion | null) => {
+    setAudio(prev => ({ ...prev, region }));
+  }, []);
+
+  const setFingerprint = useCallback((fingerprint: TrackFingerprint | null) => {
+    setAudio(prev => ({ ...prev, fingerprint }));
   }, []);
 
   const setPlaying = useCallback((playing: boolean) => {
@@ -350,12 +549,16 @@ export function AppProvider({ children }: { children: ReactNode }) {
       setFile,
       setAudioFile: setFile,
       setAudioBuffer,
+      decodeFile,
+      setRegion,
+      setFingerprint,
       setPlaying,
       updateCurrentTime,
       setRitualPhase,
       setCountdown,
       setSoundPrint,
       captureSoundPrint,
+      capturePosterPrint,
       saveRecording,
       reset,
       signInWithDiscord,
@@ -0,0 +1,26 @@
+-- Recordings and Sound Prints live in Storage; performances only keep paths.
+alter table public.performances
+  add column if not exists recording_path text,
+  add column if not exists sound_print_path text;
+
+insert into storage.buckets (id, name, public)
+values ('rituals', 'rituals', false)
+on conflict (id) do nothing;
+
+-- Objects are stored under <user id>/<take id>/..., and only the owner can touch them.
+create policy "Users upload their own ritual media"
+  on storage.objects for insert to authenticated
+  with check (bucket_id = 'rituals' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users update their own ritual media"
+  on storage.objects for update to authenticated
+  using (bucket_id = 'rituals' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users read their own ritual media"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'rituals' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Lets the client clean up the media of a take whose row never got saved
+create policy "Users delete their own ritual media"
+  on storage.objects for delete to authenticated
+  using (bucket_id = 'rituals' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,30 @@
+-- Owners can publish a performance at /p/:id; everything stays private by default.
+alter table public.performances
+  add column if not exists is_public boolean not null default false,
+  add column if not exists og_image_path text;
+
+create policy "Anyone can read public performances"
+  on public.performances for select to anon, authenticated
+  using (is_public or auth.uid() = user_id);
+
+create policy "Owners update their performances"
+  on public.performances for update to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- ...but only the sharing columns; media paths must keep pointing at the owner's own objects
+revoke update on public.performances from anon, authenticated;
+grant update (is_public, og_image_path) on public.performances to authenticated;
+
+-- Media of a public performance is readable by anyone with its path
+create policy "Anyone can read media of public performances"
+  on storage.objects for select to anon, authenticated
+  using (
+    bucket_id = 'rituals'
+    and exists (
+      select 1 from public.performances p
+      where p.is_public
+        and (storage.foldername(name))[1] = p.user_id::text
+        and name in (p.recording_path, p.sound_print_path, p.og_image_path)
+    )
+  );
@@ -0,0 +1,10 @@
+-- track_hash is the acoustic fingerprint (same song, any encode); file_hash is
+-- the SHA-256 of the uploaded bytes. Re-encodes don't produce identical
+-- fingerprints, only close ones: track_keys holds coarse pieces of it, and a
+-- shared key makes a row a candidate for the client's distance check.
+alter table public.performances
+  add column if not exists file_hash text,
+  add column if not exists track_keys text[] not null default '{}';
+
+create index if not exists performances_track_hash_idx on public.performances (track_hash);
+create index if not exists performances_track_keys_idx on public.performances using gin (track_keys);
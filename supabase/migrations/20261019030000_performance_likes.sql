@@ -0,0 +1,68 @@
+-- Likes for the per-track gallery; like_count is denormalised so the gallery can sort on it.
+alter table public.performances
+  add column if not exists like_count integer not null default 0;
+
+create table if not exists public.performance_likes (
+  performance_id uuid not null references public.performances (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (performance_id, user_id)
+);
+
+alter table public.performance_likes enable row level security;
+
+-- Who liked what stays private; public counts come from like_count
+create policy "Users read their own likes"
+  on public.performance_likes for select to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users like as themselves"
+  on public.performance_likes for insert to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Users remove their own likes"
+  on public.performance_likes for delete to authenticated
+  using (auth.uid() = user_id);
+
+create or replace function public.sync_performance_like_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update performances set like_count = like_count + 1 where id = new.performance_id;
+  else
+    update performances set like_count = greatest(0, like_count - 1) where id = old.performance_id;
+  end if;
+  return null;
+end;
+$$;
+
+create trigger performance_likes_count
+  after insert or delete on public.performance_likes
+  for each row execute function public.sync_performance_like_count();
+
+-- like_count only moves through the trigger above (nested, so depth > 1); a
+-- direct update by the owner, or anyone, is rejected even if a grant allows it
+create or replace function public.guard_performance_like_count()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.like_count is distinct from old.like_count and pg_trigger_depth() < 2 then
+    raise exception 'like_count is maintained by performance_likes';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger performances_like_count_guard
+  before update of like_count on public.performances
+  for each row execute function public.guard_performance_like_count();
+
+revoke update (like_count) on public.performances from anon, authenticated;
+
+create index if not exists performances_public_track_idx
+  on public.performances (track_hash, created_at desc) where is_public;